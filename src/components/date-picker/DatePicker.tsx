@@ -1,15 +1,20 @@
-import { Button, chakra, HStack, Text } from '@chakra-ui/react';
+import { Button, chakra, HStack, Text, useFieldContext } from '@chakra-ui/react';
 import type { SystemStyleObject } from '@chakra-ui/react';
 import React from 'react';
 import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon } from '../icons';
+import { getCalendarSystem } from './calendar-system';
+import type { TimeUnit } from './time-format';
+import type { DatePickerTranslations } from './translations';
 import {
   CalendarDay,
+  CalendarWeek,
+  DatePickerDayRenderer,
   DatePickerProvider,
   useDatePicker,
   useDatePickerContext,
   UseDatePickerProps,
 } from './use-date-picker';
-import type { DatePickerContextValue } from './use-date-picker';
+import type { DatePickerContextValue, DateSegmentEndpoint } from './use-date-picker';
 
 function cx(...classNames: Array<string | false | null | undefined>) {
   return classNames.filter(Boolean).join(' ');
@@ -34,6 +39,8 @@ const DATE_PICKER_SLOTS = [
   'root',
   'control',
   'input',
+  'segmentedInput',
+  'segment',
   'trigger',
   'content',
   'header',
@@ -42,13 +49,26 @@ const DATE_PICKER_SLOTS = [
   'month',
   'year',
   'calendar',
+  'months',
+  'monthView',
+  'monthCaption',
   'weekdays',
   'weekday',
   'grid',
+  'weekNumber',
   'day',
+  'viewGrid',
+  'viewCell',
   'time',
   'timeInput',
+  'timePicker',
+  'timeColumn',
+  'timeOption',
+  'presets',
+  'preset',
   'footer',
+  'liveRegion',
+  'hiddenInput',
 ] as const;
 
 type DatePickerSlot = (typeof DATE_PICKER_SLOTS)[number];
@@ -67,6 +87,7 @@ const ACCENT_LIGHT = 'rgba(244, 244, 245, 0.24)';
 const RANGE_BG = 'rgba(244, 244, 245, 0.12)';
 const HOVER_BG = 'rgba(244, 244, 245, 0.1)';
 const SHADOW = '0px 32px 70px rgba(2, 6, 23, 0.6)';
+const INVALID = 'rgba(248, 113, 113, 0.7)';
 
 const defaultStyles: DatePickerStyles = {
   root: {
@@ -92,6 +113,16 @@ const defaultStyles: DatePickerStyles = {
       borderColor: 'rgba(148, 163, 184, 0.42)',
       boxShadow: '0 0 0 1px rgba(148, 163, 184, 0.42)',
     },
+    '&[data-invalid="true"]': {
+      borderColor: INVALID,
+    },
+    '&[data-invalid="true"]:focus-within': {
+      boxShadow: `0 0 0 1px ${INVALID}`,
+    },
+    '&[data-disabled="true"]': {
+      opacity: 0.4,
+      cursor: 'not-allowed',
+    },
   },
   input: {
     flex: 1,
@@ -108,6 +139,30 @@ const defaultStyles: DatePickerStyles = {
     '&:focus': {
       outline: 'none',
     },
+    '&[aria-invalid="true"]::placeholder': {
+      color: INVALID,
+    },
+  },
+  segmentedInput: {
+    flex: 1,
+    minWidth: 0,
+    display: 'flex',
+    alignItems: 'center',
+    whiteSpace: 'pre',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  segment: {
+    paddingInline: '0.125rem',
+    borderRadius: '0.25rem',
+    outline: 0,
+    caretColor: 'transparent',
+    '&[data-placeholder="true"]': {
+      color: TEXT_MUTED,
+    },
+    '&:focus': {
+      background: ACCENT_LIGHT,
+      color: TEXT,
+    },
   },
   trigger: {
     display: 'inline-flex',
@@ -174,6 +229,22 @@ const defaultStyles: DatePickerStyles = {
     fontWeight: 600,
     letterSpacing: '-0.01em',
     color: TEXT,
+    background: 'transparent',
+    border: 0,
+    borderRadius: '0.75rem',
+    paddingBlock: '0.25rem',
+    cursor: 'pointer',
+    transition: 'background 0.2s ease',
+    '&:hover:not(:disabled)': {
+      background: HOVER_BG,
+    },
+    '&:focus-visible': {
+      outline: 'none',
+      boxShadow: `0 0 0 2px ${ACCENT_LIGHT}`,
+    },
+    '&:disabled': {
+      cursor: 'default',
+    },
   },
   month: {
     position: 'absolute',
@@ -202,6 +273,23 @@ const defaultStyles: DatePickerStyles = {
     flexDirection: 'column',
     gap: '1rem',
   },
+  months: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '2rem',
+  },
+  monthView: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '1rem',
+    flex: 1,
+  },
+  monthCaption: {
+    textAlign: 'center',
+    fontSize: '0.95rem',
+    fontWeight: 600,
+    color: TEXT,
+  },
   weekdays: {
     display: 'grid',
     gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
@@ -210,6 +298,9 @@ const defaultStyles: DatePickerStyles = {
     textTransform: 'uppercase',
     letterSpacing: '0.14em',
     color: TEXT_SUBTLE,
+    '&[data-week-numbers="true"]': {
+      gridTemplateColumns: 'auto repeat(7, minmax(0, 1fr))',
+    },
   },
   weekday: {
     textAlign: 'center',
@@ -219,6 +310,32 @@ const defaultStyles: DatePickerStyles = {
     display: 'grid',
     gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
     gap: '0.6rem',
+    '&[data-week-numbers="true"]': {
+      gridTemplateColumns: 'auto repeat(7, minmax(0, 1fr))',
+    },
+    '&[data-loading="true"]': {
+      opacity: 0.6,
+      cursor: 'progress',
+    },
+  },
+  weekNumber: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: '2rem',
+    fontSize: '0.7rem',
+    fontWeight: 600,
+    color: TEXT_SUBTLE,
+    background: 'transparent',
+    border: 0,
+    borderRadius: '0.5rem',
+    '&[data-clickable="true"]': {
+      cursor: 'pointer',
+      '&:hover': {
+        background: HOVER_BG,
+        color: TEXT,
+      },
+    },
   },
   day: {
     display: 'inline-flex',
@@ -250,6 +367,15 @@ const defaultStyles: DatePickerStyles = {
       background: RANGE_BG,
       color: TEXT,
     },
+    '&[data-in-preview="true"]:not([data-selected="true"])': {
+      background: RANGE_BG,
+      borderColor: BORDER_SOFT,
+      borderStyle: 'dashed',
+    },
+    '&:is([data-range-start="true"], [data-range-end="true"]):not([data-selected="true"])': {
+      borderColor: 'rgba(244, 244, 245, 0.42)',
+      color: ACCENT,
+    },
     '&[data-today="true"]': {
       borderColor: 'rgba(244, 244, 245, 0.34)',
       fontWeight: 600,
@@ -262,6 +388,55 @@ const defaultStyles: DatePickerStyles = {
     '&[data-outside="true"]': {
       color: TEXT_SUBTLE,
     },
+    '&[data-week-hover="true"]:not([data-selected="true"])': {
+      background: HOVER_BG,
+    },
+    '&[data-hidden="true"]': {
+      visibility: 'hidden',
+    },
+    '&[disabled]': {
+      opacity: 0.3,
+      cursor: 'not-allowed',
+    },
+  },
+  viewGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+    gap: '0.75rem',
+  },
+  viewCell: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: '999px',
+    height: '3rem',
+    paddingInline: '0.5rem',
+    fontWeight: 500,
+    fontSize: '0.9rem',
+    whiteSpace: 'nowrap',
+    border: '1px solid transparent',
+    cursor: 'pointer',
+    color: TEXT,
+    transition: 'background 0.2s ease, color 0.2s ease',
+    '&:hover': {
+      background: HOVER_BG,
+    },
+    '&:focus-visible': {
+      outline: 'none',
+      boxShadow: `0 0 0 2px ${ACCENT_LIGHT}`,
+    },
+    '&[data-selected="true"]': {
+      background: 'rgba(148, 163, 184, 0.3)',
+      borderColor: 'rgba(244, 244, 245, 0.42)',
+      color: ACCENT,
+    },
+    '&[data-today="true"]': {
+      borderColor: 'rgba(244, 244, 245, 0.34)',
+      fontWeight: 600,
+    },
+    '&[data-outside="true"]': {
+      color: TEXT_SUBTLE,
+    },
     '&[disabled]': {
       opacity: 0.3,
       cursor: 'not-allowed',
@@ -291,6 +466,90 @@ const defaultStyles: DatePickerStyles = {
       borderColor: 'rgba(148, 163, 184, 0.45)',
       boxShadow: '0 0 0 1px rgba(148, 163, 184, 0.45)',
     },
+    '&[aria-invalid="true"]': {
+      borderColor: 'rgba(248, 113, 113, 0.7)',
+    },
+  },
+  timePicker: {
+    marginTop: '1.5rem',
+  },
+  timeColumn: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.125rem',
+    maxHeight: '12rem',
+    overflowY: 'auto',
+    padding: '0.25rem',
+    borderRadius: '0.75rem',
+    border: `1px solid ${BORDER_SOFT}`,
+    background: SURFACE,
+    scrollbarWidth: 'thin',
+    '&:focus-visible': {
+      outline: 'none',
+      boxShadow: `0 0 0 2px ${ACCENT_LIGHT}`,
+    },
+    '&[aria-invalid="true"]': {
+      borderColor: 'rgba(248, 113, 113, 0.7)',
+    },
+  },
+  timeOption: {
+    minWidth: '2.75rem',
+    paddingInline: '0.625rem',
+    paddingBlock: '0.35rem',
+    borderRadius: '0.5rem',
+    textAlign: 'center',
+    fontVariantNumeric: 'tabular-nums',
+    color: TEXT_MUTED,
+    cursor: 'pointer',
+    '&:hover': {
+      color: TEXT,
+      background: HOVER_BG,
+    },
+    '&[data-selected="true"]': {
+      color: ACCENT,
+      background: 'rgba(148, 163, 184, 0.3)',
+    },
+    '&[data-disabled="true"]': {
+      opacity: 0.3,
+      cursor: 'not-allowed',
+      background: 'transparent',
+    },
+  },
+  presets: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    minWidth: '9rem',
+    paddingInlineEnd: '1.25rem',
+    borderInlineEnd: `1px solid ${BORDER_SOFT}`,
+  },
+  preset: {
+    textAlign: 'start',
+    borderRadius: '0.625rem',
+    paddingInline: '0.75rem',
+    paddingBlock: '0.45rem',
+    color: TEXT_MUTED,
+    background: 'transparent',
+    whiteSpace: 'nowrap',
+    cursor: 'pointer',
+    transition: 'background 0.2s ease, color 0.2s ease',
+    '&:hover': {
+      color: TEXT,
+      background: HOVER_BG,
+    },
+    '&:focus-visible': {
+      outline: 'none',
+      boxShadow: `0 0 0 2px ${ACCENT_LIGHT}`,
+    },
+    '&[data-disabled="true"]': {
+      opacity: 0.4,
+      cursor: 'not-allowed',
+      background: 'transparent',
+    },
+    '&[data-active="true"]': {
+      color: ACCENT,
+      background: 'rgba(148, 163, 184, 0.3)',
+    },
   },
   footer: {
     marginTop: '1.5rem',
@@ -299,6 +558,29 @@ const defaultStyles: DatePickerStyles = {
     alignItems: 'center',
     gap: '0.75rem',
   },
+  liveRegion: {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    padding: 0,
+    margin: '-1px',
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+  },
+  hiddenInput: {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    padding: 0,
+    margin: '-1px',
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    border: 0,
+    opacity: 0,
+    pointerEvents: 'none',
+  },
 };
 
 const DatePickerStylesContext = React.createContext<DatePickerStyles | null>(null);
@@ -357,13 +639,14 @@ function getPlacementStyles(placement: string | undefined, gutter: number): Syst
       style.top = '0';
     }
   } else {
+    // Start and end alignment are logical so they follow the root's `dir`.
     if (align === 'end') {
-      style.right = '0';
+      style.insetInlineEnd = '0';
     } else if (align === 'center') {
       style.left = '50%';
       style.transform = 'translateX(-50%)';
     } else {
-      style.left = '0';
+      style.insetInlineStart = '0';
     }
   }
 
@@ -374,9 +657,13 @@ type DivProps = Omit<React.ComponentPropsWithoutRef<'div'>, 'onChange' | 'defaul
 type ButtonElementProps = React.ComponentPropsWithoutRef<'button'>;
 type InputElementProps = React.ComponentPropsWithoutRef<'input'>;
 
-export interface DatePickerProps extends UseDatePickerProps, Omit<DivProps, 'children'> {
+export interface DatePickerProps extends UseDatePickerProps, Omit<DivProps, 'children' | 'dir'> {
   children?: React.ReactNode;
   yearRange?: { start: number; end: number };
+  /**
+   * Custom content for every grid day. `DatePicker.Day` children take precedence.
+   */
+  renderDay?: DatePickerDayRenderer;
   styles?: Partial<DatePickerStyles>;
 }
 
@@ -386,9 +673,13 @@ export const DatePickerRoot = React.forwardRef<HTMLDivElement, DatePickerProps>(
     className,
     styles: stylesProp,
     yearRange,
+    renderDay,
     style: styleProp,
     id,
     isRange,
+    selectionMode,
+    maxSelections,
+    isEditable,
     value,
     defaultValue,
     onChange,
@@ -397,9 +688,42 @@ export const DatePickerRoot = React.forwardRef<HTMLDivElement, DatePickerProps>(
     minDate,
     maxDate,
     locale,
+    dir,
+    translations,
+    timeZone,
+    calendar,
+    format,
+    formatOptions,
+    parse,
+    rangeSeparator,
     weekStartsOn,
     isDateUnavailable,
+    getDayMeta,
+    disabled,
+    modifiers,
+    loadAvailability,
+    name,
+    startName,
+    endName,
+    required,
+    form,
+    isInvalid,
+    validate,
+    isDisabled,
+    inputId,
+    ariaDescribedBy,
+    showWeekNumbers,
+    onWeekNumberClick,
     allowSameDateSelection,
+    minRangeLength,
+    maxRangeLength,
+    allowUnavailableInRange,
+    numberOfMonths,
+    pagedNavigation,
+    minView,
+    maxView,
+    onViewChange,
+    presets,
     defaultVisibleDate,
     isOpen,
     defaultIsOpen,
@@ -411,12 +735,32 @@ export const DatePickerRoot = React.forwardRef<HTMLDivElement, DatePickerProps>(
     timeValue,
     defaultTimeValue,
     onTimeChange,
+    timeStep,
+    hourCycle,
+    showSeconds,
+    minTime,
+    maxTime,
+    minDateTime,
+    maxDateTime,
+    startTime,
+    defaultStartTime,
+    onStartTimeChange,
+    endTime,
+    defaultEndTime,
+    onEndTimeChange,
     ...rest
   } = props;
 
+  // Inside a Chakra `Field.Root`, the field's label, helper/error texts and states apply.
+  // Ark creates the field context with `strict: false`, so it is undefined outside a
+  // `Field.Root` even though its type says otherwise.
+  const field = useFieldContext() as ReturnType<typeof useFieldContext> | undefined;
   const api = useDatePicker({
     id,
     isRange,
+    selectionMode,
+    maxSelections,
+    isEditable,
     value,
     defaultValue,
     onChange,
@@ -425,9 +769,42 @@ export const DatePickerRoot = React.forwardRef<HTMLDivElement, DatePickerProps>(
     minDate,
     maxDate,
     locale,
+    dir,
+    translations,
+    timeZone,
+    calendar,
+    format,
+    formatOptions,
+    parse,
+    rangeSeparator,
     weekStartsOn,
     isDateUnavailable,
+    getDayMeta,
+    disabled,
+    modifiers,
+    loadAvailability,
+    name,
+    startName,
+    endName,
+    required: required ?? field?.required,
+    form,
+    isInvalid: isInvalid ?? field?.invalid,
+    validate,
+    isDisabled: isDisabled ?? field?.disabled,
+    inputId: inputId ?? field?.ids.control,
+    ariaDescribedBy: ariaDescribedBy ?? field?.ariaDescribedby,
+    showWeekNumbers,
+    onWeekNumberClick,
     allowSameDateSelection,
+    minRangeLength,
+    maxRangeLength,
+    allowUnavailableInRange,
+    numberOfMonths,
+    pagedNavigation,
+    minView,
+    maxView,
+    onViewChange,
+    presets,
     defaultVisibleDate,
     isOpen,
     defaultIsOpen,
@@ -439,21 +816,28 @@ export const DatePickerRoot = React.forwardRef<HTMLDivElement, DatePickerProps>(
     timeValue,
     defaultTimeValue,
     onTimeChange,
+    timeStep,
+    hourCycle,
+    showSeconds,
+    minTime,
+    maxTime,
+    minDateTime,
+    maxDateTime,
+    startTime,
+    defaultStartTime,
+    onStartTimeChange,
+    endTime,
+    defaultEndTime,
+    onEndTimeChange,
   });
 
-  const monthNames = React.useMemo(() => {
-    return Array.from({ length: 12 }).map((_, month) =>
-      new Intl.DateTimeFormat(api.locale, { month: 'long' }).format(new Date(2020, month, 1)),
-    );
-  }, [api.locale]);
-
   const contextValue = React.useMemo<DatePickerContextValue>(
     () => ({
       ...api,
       yearRange,
-      monthNames,
+      renderDay,
     }),
-    [api, monthNames, yearRange],
+    [api, renderDay, yearRange],
   );
 
   const styles = React.useMemo(() => mergeSlotStyles(stylesProp), [stylesProp]);
@@ -471,6 +855,21 @@ export const DatePickerRoot = React.forwardRef<HTMLDivElement, DatePickerProps>(
           style={styleProp}
         >
           {children ?? <DatePickerPrimitive />}
+          <chakra.span
+            className="chakra-date-picker__live-region"
+            css={styles.liveRegion}
+            {...api.getLiveRegionProps()}
+          >
+            {api.announcement}
+          </chakra.span>
+          {api.formFields.map((field, index) => (
+            <chakra.input
+              key={`${field.name}-${index}`}
+              className="chakra-date-picker__hidden-input"
+              css={styles.hiddenInput}
+              {...api.getHiddenInputProps(field)}
+            />
+          ))}
         </chakra.div>
       </DatePickerStylesContext.Provider>
     </DatePickerProvider>
@@ -482,7 +881,7 @@ const DatePickerPrimitive = () => (
   <>
     <DatePickerControl>
       <DatePickerInput />
-      <DatePickerTrigger aria-label="Toggle calendar">
+      <DatePickerTrigger>
         <CalendarIcon />
       </DatePickerTrigger>
     </DatePickerControl>
@@ -550,6 +949,53 @@ export const DatePickerInput = React.forwardRef<HTMLInputElement, DatePickerInpu
 );
 DatePickerInput.displayName = 'DatePickerInput';
 
+export type DatePickerSegmentedInputProps = DivProps;
+
+export const DatePickerSegmentedInput = React.forwardRef<
+  HTMLDivElement,
+  DatePickerSegmentedInputProps
+>((props, ref) => {
+  const api = useDatePickerContext('DatePickerSegmentedInput');
+  const styles = useStyles();
+  const { className, style, ...rest } = props;
+  const endpoints: DateSegmentEndpoint[] = api.isRange ? ['start', 'end'] : ['start'];
+
+  return (
+    <chakra.div
+      ref={ref}
+      className={cx('chakra-date-picker__segmented-input', className)}
+      css={styles.segmentedInput}
+      style={style}
+      {...rest}
+    >
+      {endpoints.map((endpoint, index) => (
+        <React.Fragment key={endpoint}>
+          {index > 0 ? <span aria-hidden="true">{api.rangeSeparator}</span> : null}
+          <chakra.div display="inline-flex" {...api.getSegmentGroupProps(endpoint)}>
+            {api.getSegments(endpoint).map((segment, segmentIndex) =>
+              segment.type === 'literal' ? (
+                <span key={`literal-${segmentIndex}`} {...api.getSegmentProps(segment)}>
+                  {segment.text}
+                </span>
+              ) : (
+                <chakra.span
+                  key={segment.type}
+                  className="chakra-date-picker__segment"
+                  css={styles.segment}
+                  {...api.getSegmentProps(segment)}
+                >
+                  {segment.text}
+                </chakra.span>
+              ),
+            )}
+          </chakra.div>
+        </React.Fragment>
+      ))}
+    </chakra.div>
+  );
+});
+DatePickerSegmentedInput.displayName = 'DatePickerSegmentedInput';
+
 export type DatePickerTriggerProps = ButtonElementProps;
 
 export const DatePickerTrigger = React.forwardRef<HTMLButtonElement, DatePickerTriggerProps>(
@@ -591,11 +1037,16 @@ DatePickerTrigger.displayName = 'DatePickerTrigger';
 export interface DatePickerContentProps extends DivProps {
   header?: React.ReactNode;
   footer?: React.ReactNode;
+  presets?: React.ReactNode;
+  /**
+   * Replaces the default time field, e.g. with `<DatePicker.TimePicker />`.
+   */
+  timeField?: React.ReactNode;
 }
 
 export const DatePickerContent = React.forwardRef<HTMLDivElement, DatePickerContentProps>(
   (props, ref) => {
-    const { children, className, header, footer, style, ...rest } = props;
+    const { children, className, header, footer, presets, timeField, style, ...rest } = props;
     const api = useDatePickerContext('DatePickerContent');
     const styles = useStyles();
     const contentProps = api.getContentProps();
@@ -614,6 +1065,15 @@ export const DatePickerContent = React.forwardRef<HTMLDivElement, DatePickerCont
 
     const mergedRef = mergeRefs(contentRefProp as React.Ref<HTMLElement>, ref);
     const placementStyles = getPlacementStyles(api.placement, api.gutter);
+    const presetPanel = presets ?? (api.presets.length > 0 ? <DatePickerPresets /> : null);
+    const panel = (
+      <>
+        {header ?? <DatePickerHeader />}
+        <DatePickerCalendar>{children}</DatePickerCalendar>
+        {api.enableTimeSelection ? (timeField ?? <DatePickerTimeField />) : null}
+        {footer ?? <DatePickerFooter />}
+      </>
+    );
 
     return (
       <chakra.div
@@ -625,10 +1085,16 @@ export const DatePickerContent = React.forwardRef<HTMLDivElement, DatePickerCont
         {...restContent}
         {...rest}
       >
-        {header ?? <DatePickerHeader />}
-        <DatePickerCalendar>{children}</DatePickerCalendar>
-        {api.enableTimeSelection ? <DatePickerTimeField /> : null}
-        {footer ?? <DatePickerFooter />}
+        {presetPanel ? (
+          <HStack align="flex-start" gap={6}>
+            {presetPanel}
+            <chakra.div flex="1" minW={0}>
+              {panel}
+            </chakra.div>
+          </HStack>
+        ) : (
+          panel
+        )}
       </chakra.div>
     );
   },
@@ -643,43 +1109,48 @@ export const DatePickerHeader = React.forwardRef<HTMLDivElement, DatePickerHeade
     const styles = useStyles();
     const { className, style, ...rest } = props;
 
-    const monthFormatter = React.useMemo(
-      () => new Intl.DateTimeFormat(api.locale, { month: 'long' }),
-      [api.locale],
-    );
-
     const monthYearFormatter = React.useMemo(
-      () => new Intl.DateTimeFormat(api.locale, { month: 'long', year: 'numeric' }),
-      [api.locale],
-    );
-
-    const monthOptions = React.useMemo(
       () =>
-        api.monthNames ??
-        Array.from({ length: 12 }).map((_, index) =>
-          monthFormatter.format(new Date(2020, index, 1)),
-        ),
-      [api.monthNames, monthFormatter],
+        new Intl.DateTimeFormat(api.locale, {
+          month: 'long',
+          year: 'numeric',
+          calendar: api.calendar,
+        }),
+      [api.calendar, api.locale],
     );
 
-    const monthYearLabel = React.useMemo(
-      () => monthYearFormatter.format(new Date(api.viewYear, api.viewMonth, 1)),
-      [api.viewMonth, api.viewYear, monthYearFormatter],
-    );
+    const { getYearLabel, months } = api;
+    const monthYearLabel = React.useMemo(() => {
+      if (api.view === 'month') return getYearLabel(api.viewYear);
+      if (api.view === 'year') {
+        const decade = Math.floor(api.viewYear / 10) * 10;
+        return `${getYearLabel(decade)} – ${getYearLabel(decade + 9)}`;
+      }
+      if (api.view === 'decade') {
+        const century = Math.floor(api.viewYear / 100) * 100;
+        return `${getYearLabel(century)} – ${getYearLabel(century + 99)}`;
+      }
+      const first = monthYearFormatter.format(months[0].date);
+      if (months.length === 1) return first;
+      const last = monthYearFormatter.format(months[months.length - 1].date);
+      return `${first} – ${last}`;
+    }, [api.view, api.viewYear, getYearLabel, monthYearFormatter, months]);
 
+    const { calendar } = api;
     const yearBounds = React.useMemo(() => {
       if (api.yearRange) return api.yearRange;
+      const getYear = (date: Date) => getCalendarSystem(calendar).getFields(date).year;
       if (api.minDate && api.maxDate) {
-        return { start: api.minDate.getFullYear(), end: api.maxDate.getFullYear() };
+        return { start: getYear(api.minDate), end: getYear(api.maxDate) };
       }
       if (api.minDate) {
-        return { start: api.minDate.getFullYear(), end: api.viewYear + 50 };
+        return { start: getYear(api.minDate), end: api.viewYear + 50 };
       }
       if (api.maxDate) {
-        return { start: api.viewYear - 50, end: api.maxDate.getFullYear() };
+        return { start: api.viewYear - 50, end: getYear(api.maxDate) };
       }
       return { start: api.viewYear - 50, end: api.viewYear + 50 };
-    }, [api.maxDate, api.minDate, api.viewYear, api.yearRange]);
+    }, [api.maxDate, api.minDate, api.viewYear, api.yearRange, calendar]);
 
     const years = React.useMemo(() => {
       const values: number[] = [];
@@ -759,11 +1230,15 @@ export const DatePickerHeader = React.forwardRef<HTMLDivElement, DatePickerHeade
             style={prevStyle}
             {...restPrevTrigger}
           >
-            <ChevronLeftIcon />
+            {api.dir === 'rtl' ? <ChevronRightIcon /> : <ChevronLeftIcon />}
           </chakra.button>
-          <Text as="span" className="chakra-date-picker__month-label" css={styles.monthLabel}>
+          <chakra.button
+            className="chakra-date-picker__month-label"
+            css={styles.monthLabel}
+            {...api.getViewTriggerProps()}
+          >
             {monthYearLabel}
-          </Text>
+          </chakra.button>
           <chakra.button
             ref={nextRefProp as React.Ref<HTMLButtonElement>}
             type="button"
@@ -776,7 +1251,7 @@ export const DatePickerHeader = React.forwardRef<HTMLDivElement, DatePickerHeade
             style={nextStyle}
             {...restNextTrigger}
           >
-            <ChevronRightIcon />
+            {api.dir === 'rtl' ? <ChevronLeftIcon /> : <ChevronRightIcon />}
           </chakra.button>
         </HStack>
         <chakra.select
@@ -786,7 +1261,7 @@ export const DatePickerHeader = React.forwardRef<HTMLDivElement, DatePickerHeade
           style={monthStyle}
           {...restMonthSelect}
         >
-          {monthOptions.map((label, index) => (
+          {api.monthNames.map((label, index) => (
             <option key={label} value={index}>
               {label}
             </option>
@@ -801,7 +1276,7 @@ export const DatePickerHeader = React.forwardRef<HTMLDivElement, DatePickerHeade
         >
           {years.map((year) => (
             <option key={year} value={year}>
-              {year}
+              {getYearLabel(year)}
             </option>
           ))}
         </chakra.select>
@@ -819,6 +1294,16 @@ export const DatePickerCalendar = React.forwardRef<HTMLDivElement, DatePickerCal
     const styles = useStyles();
     const { children, className, style, ...rest } = props;
 
+    const captionFormatter = React.useMemo(
+      () =>
+        new Intl.DateTimeFormat(api.locale, {
+          month: 'long',
+          year: 'numeric',
+          calendar: api.calendar,
+        }),
+      [api.calendar, api.locale],
+    );
+
     return (
       <chakra.div
         ref={ref}
@@ -827,18 +1312,71 @@ export const DatePickerCalendar = React.forwardRef<HTMLDivElement, DatePickerCal
         style={style}
         {...rest}
       >
-        <chakra.div className="chakra-date-picker__weekdays" css={styles.weekdays}>
-          {api.weekDays.map((label) => (
-            <Text key={label} as="span" role="columnheader" css={styles.weekday}>
-              {label}
-            </Text>
-          ))}
-        </chakra.div>
-        <chakra.div {...api.getCalendarGridProps()} css={styles.grid}>
-          {api.weeks.flat().map((day) => (
-            <DatePickerDayCell key={day.date.toISOString()} day={day} />
-          ))}
-        </chakra.div>
+        {api.view !== 'day' ? (
+          <chakra.div
+            className="chakra-date-picker__view-grid"
+            css={styles.viewGrid}
+            {...api.getViewGridProps()}
+          >
+            {api.viewCells.map((cell) => (
+              <chakra.button
+                key={cell.date.toISOString()}
+                className="chakra-date-picker__view-cell"
+                css={styles.viewCell}
+                {...api.getViewCellProps(cell)}
+              >
+                {cell.label}
+              </chakra.button>
+            ))}
+          </chakra.div>
+        ) : (
+          <chakra.div className="chakra-date-picker__months" css={styles.months}>
+            {api.months.map((month, monthIndex) => (
+              <chakra.div
+                key={`${month.year}-${month.month}`}
+                className="chakra-date-picker__month-view"
+                css={styles.monthView}
+              >
+                {api.numberOfMonths > 1 ? (
+                  <Text
+                    as="span"
+                    className="chakra-date-picker__month-caption"
+                    css={styles.monthCaption}
+                    {...api.getMonthCaptionProps(monthIndex)}
+                  >
+                    {captionFormatter.format(month.date)}
+                  </Text>
+                ) : null}
+                <chakra.div
+                  className="chakra-date-picker__weekdays"
+                  css={styles.weekdays}
+                  data-week-numbers={api.showWeekNumbers ? 'true' : undefined}
+                >
+                  {api.showWeekNumbers ? (
+                    <Text as="span" role="columnheader" css={styles.weekday}>
+                      {api.translations.weekNumberColumn}
+                    </Text>
+                  ) : null}
+                  {api.weekDays.map((label) => (
+                    <Text key={label} as="span" role="columnheader" css={styles.weekday}>
+                      {label}
+                    </Text>
+                  ))}
+                </chakra.div>
+                <chakra.div {...api.getCalendarGridProps(monthIndex)} css={styles.grid}>
+                  {month.weeks.map((week) => (
+                    <React.Fragment key={week[0].date.toISOString()}>
+                      {api.showWeekNumbers ? <DatePickerWeekNumber week={week} /> : null}
+                      {week.map((day) => (
+                        <DatePickerDayCell key={day.date.toISOString()} day={day} />
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </chakra.div>
+              </chakra.div>
+            ))}
+          </chakra.div>
+        )}
         {children}
       </chakra.div>
     );
@@ -846,8 +1384,35 @@ export const DatePickerCalendar = React.forwardRef<HTMLDivElement, DatePickerCal
 );
 DatePickerCalendar.displayName = 'DatePickerCalendar';
 
-export interface DatePickerDayCellProps extends ButtonElementProps {
+export interface DatePickerWeekNumberProps extends ButtonElementProps {
+  week: CalendarWeek;
+}
+
+export const DatePickerWeekNumber = React.forwardRef<HTMLButtonElement, DatePickerWeekNumberProps>(
+  ({ week, className, ...rest }, ref) => {
+    const api = useDatePickerContext('DatePickerWeekNumber');
+    const styles = useStyles();
+    const weekNumberProps = api.getWeekNumberProps(week);
+
+    return (
+      <chakra.span
+        ref={ref}
+        as={weekNumberProps.onClick ? 'button' : undefined}
+        className={cx('chakra-date-picker__week-number', className)}
+        css={styles.weekNumber}
+        {...weekNumberProps}
+        {...rest}
+      >
+        {week.weekNumber}
+      </chakra.span>
+    );
+  },
+);
+DatePickerWeekNumber.displayName = 'DatePickerWeekNumber';
+
+export interface DatePickerDayCellProps extends Omit<ButtonElementProps, 'children'> {
   day: CalendarDay;
+  children?: React.ReactNode | DatePickerDayRenderer;
 }
 
 export const DatePickerDayCell = React.forwardRef<HTMLButtonElement, DatePickerDayCellProps>(
@@ -876,7 +1441,9 @@ export const DatePickerDayCell = React.forwardRef<HTMLButtonElement, DatePickerD
         {...restDayProps}
         {...rest}
       >
-        {children ?? day.label}
+        {typeof children === 'function'
+          ? children(day, api.getDayState(day))
+          : (children ?? api.renderDay?.(day, api.getDayState(day)) ?? day.label)}
       </chakra.button>
     );
   },
@@ -890,16 +1457,14 @@ export const DatePickerTimeField = React.forwardRef<HTMLDivElement, DatePickerTi
     const api = useDatePickerContext('DatePickerTimeField');
     const styles = useStyles();
     if (!api.enableTimeSelection) return null;
-    const timeInputProps = api.getTimeInputProps();
     const { className, style, ...rest } = props;
-    const {
-      className: timeClassName,
-      style: timeStyle,
-      ...restTimeInput
-    } = timeInputProps as {
-      className?: string;
-      style?: React.CSSProperties;
-    };
+    const { translations } = api;
+    const fields: { endpoint?: DateSegmentEndpoint; label: string }[] = api.isRange
+      ? [
+          { endpoint: 'start', label: translations.start },
+          { endpoint: 'end', label: translations.end },
+        ]
+      : [{ label: translations.time }];
 
     return (
       <HStack
@@ -908,24 +1473,199 @@ export const DatePickerTimeField = React.forwardRef<HTMLDivElement, DatePickerTi
         css={styles.time}
         style={style}
         gap={3}
+        flexWrap="wrap"
         {...rest}
       >
-        <Text fontSize="sm" color="inherit">
-          Time
-        </Text>
-        <chakra.input
-          type="time"
-          className={timeClassName}
-          css={styles.timeInput}
-          style={timeStyle}
-          {...restTimeInput}
-        />
+        {fields.map(({ endpoint, label }) => {
+          if (api.isHourCycleSet) {
+            return (
+              <React.Fragment key={label}>
+                <Text fontSize="sm" color="inherit">
+                  {label}
+                </Text>
+                <chakra.div
+                  display="inline-flex"
+                  alignItems="center"
+                  css={styles.timeInput}
+                  {...api.getTimeSegmentGroupProps(endpoint)}
+                >
+                  {api.getTimeSegments(endpoint).map((segment, index) => (
+                    <React.Fragment key={segment.unit}>
+                      {index > 0 ? (
+                        <span aria-hidden="true">{segment.unit === 'period' ? ' ' : ':'}</span>
+                      ) : null}
+                      <chakra.span
+                        className="chakra-date-picker__segment"
+                        css={styles.segment}
+                        {...api.getTimeSegmentProps(segment)}
+                      >
+                        {segment.text}
+                      </chakra.span>
+                    </React.Fragment>
+                  ))}
+                </chakra.div>
+              </React.Fragment>
+            );
+          }
+          const {
+            className: timeClassName,
+            style: timeStyle,
+            ...restTimeInput
+          } = api.getTimeInputProps(endpoint) as {
+            className?: string;
+            style?: React.CSSProperties;
+          };
+          return (
+            <React.Fragment key={label}>
+              <Text fontSize="sm" color="inherit">
+                {label}
+              </Text>
+              <chakra.input
+                type="time"
+                className={timeClassName}
+                css={styles.timeInput}
+                style={timeStyle}
+                {...restTimeInput}
+              />
+            </React.Fragment>
+          );
+        })}
       </HStack>
     );
   },
 );
 DatePickerTimeField.displayName = 'DatePickerTimeField';
 
+function DatePickerTimeColumn(props: { unit: TimeUnit; endpoint?: DateSegmentEndpoint }) {
+  const { unit, endpoint } = props;
+  const api = useDatePickerContext('DatePickerTimePicker');
+  const styles = useStyles();
+  const columnRef = React.useRef<HTMLDivElement>(null);
+  const columnProps = api.getTimeColumnProps(unit, endpoint);
+  const activeId = columnProps['aria-activedescendant'] as string | undefined;
+
+  React.useEffect(() => {
+    if (!activeId) return;
+    const option = columnRef.current?.querySelector<HTMLElement>(`[id="${activeId}"]`);
+    option?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  return (
+    <chakra.div
+      ref={columnRef}
+      className="chakra-date-picker__time-column"
+      css={styles.timeColumn}
+      {...columnProps}
+    >
+      {api.getTimeOptions(unit, endpoint).map((option) => (
+        <chakra.div
+          key={option.value}
+          className="chakra-date-picker__time-option"
+          css={styles.timeOption}
+          {...api.getTimeOptionProps(unit, option, endpoint)}
+        >
+          {option.label}
+        </chakra.div>
+      ))}
+    </chakra.div>
+  );
+}
+
+export interface DatePickerTimePickerProps extends DivProps {
+  /**
+   * Endpoint to edit in range mode. Both are rendered when omitted.
+   */
+  endpoint?: DateSegmentEndpoint;
+}
+
+export const DatePickerTimePicker = React.forwardRef<HTMLDivElement, DatePickerTimePickerProps>(
+  (props, ref) => {
+    const api = useDatePickerContext('DatePickerTimePicker');
+    const styles = useStyles();
+    if (!api.enableTimeSelection) return null;
+    const { className, style, endpoint, ...rest } = props;
+    const endpoints: (DateSegmentEndpoint | undefined)[] = api.isRange
+      ? endpoint
+        ? [endpoint]
+        : ['start', 'end']
+      : [undefined];
+
+    return (
+      <HStack
+        ref={ref}
+        className={cx('chakra-date-picker__time-picker', className)}
+        css={styles.timePicker}
+        style={style}
+        gap={4}
+        align="flex-start"
+        {...rest}
+      >
+        {endpoints.map((item) => (
+          <chakra.div
+            key={item ?? 'time'}
+            role="group"
+            aria-label={getTimePickerLabel(api.translations, item)}
+          >
+            {api.isRange ? (
+              <Text fontSize="sm" color="inherit" mb={2}>
+                {item === 'end' ? api.translations.end : api.translations.start}
+              </Text>
+            ) : null}
+            <HStack gap={1} align="stretch">
+              {api.timeUnits.map((unit) => (
+                <DatePickerTimeColumn key={unit} unit={unit} endpoint={item} />
+              ))}
+            </HStack>
+          </chakra.div>
+        ))}
+      </HStack>
+    );
+  },
+);
+DatePickerTimePicker.displayName = 'DatePickerTimePicker';
+
+function getTimePickerLabel(translations: DatePickerTranslations, endpoint?: DateSegmentEndpoint) {
+  if (!endpoint) return translations.time;
+  return endpoint === 'end' ? translations.endTime : translations.startTime;
+}
+
+export type DatePickerPresetsProps = DivProps;
+
+export const DatePickerPresets = React.forwardRef<HTMLDivElement, DatePickerPresetsProps>(
+  (props, ref) => {
+    const api = useDatePickerContext('DatePickerPresets');
+    const styles = useStyles();
+    const { className, style, children, ...rest } = props;
+
+    return (
+      <chakra.div
+        ref={ref}
+        className={cx('chakra-date-picker__presets', className)}
+        css={styles.presets}
+        style={style}
+        {...api.getPresetGroupProps()}
+        {...rest}
+      >
+        {children ??
+          api.presets.map((preset) => {
+            const label = api.getPresetLabel(preset);
+            return (
+              <chakra.button
+                key={label}
+                className="chakra-date-picker__preset"
+                css={styles.preset}
+                {...api.getPresetProps(preset)}
+              >
+                {label}
+              </chakra.button>
+            );
+          })}
+      </chakra.div>
+    );
+  },
+);
+DatePickerPresets.displayName = 'DatePickerPresets';
+
 export type DatePickerFooterProps = DivProps;
 
 export const DatePickerFooter = React.forwardRef<HTMLDivElement, DatePickerFooterProps>(
@@ -950,10 +1690,10 @@ export const DatePickerFooter = React.forwardRef<HTMLDivElement, DatePickerFoote
           onClick={() => api.clear()}
           disabled={!api.hasSelectedDate}
         >
-          Clear
+          {api.translations.clear}
         </Button>
         <Button size="sm" borderRadius="md" px={5} colorScheme="teal" onClick={() => api.close()}>
-          Done
+          {api.translations.done}
         </Button>
       </chakra.div>
     );
@@ -965,12 +1705,16 @@ export const DatePicker = Object.assign(DatePickerRoot, {
   Root: DatePickerRoot,
   Control: DatePickerControl,
   Input: DatePickerInput,
+  SegmentedInput: DatePickerSegmentedInput,
   Trigger: DatePickerTrigger,
   Content: DatePickerContent,
   Header: DatePickerHeader,
   Calendar: DatePickerCalendar,
   Day: DatePickerDayCell,
+  WeekNumber: DatePickerWeekNumber,
   TimeField: DatePickerTimeField,
+  TimePicker: DatePickerTimePicker,
+  Presets: DatePickerPresets,
   Footer: DatePickerFooter,
 });
 
@@ -0,0 +1,155 @@
+import { addDays } from './date-utils';
+
+export interface CalendarFields {
+  year: number;
+  /** Zero-based month of the calendar year. */
+  month: number;
+  day: number;
+}
+
+/**
+ * Date arithmetic for one calendar system. Dates stay regular `Date` objects; only the
+ * year/month/day reading of them changes.
+ */
+export interface CalendarSystem {
+  id: string;
+  getFields: (date: Date) => CalendarFields;
+  /** Builds a date from calendar fields, clamping the day to the month length. */
+  fromFields: (fields: CalendarFields) => Date;
+  startOfMonth: (date: Date) => Date;
+  /** Moves by whole calendar months, keeping the day of month where it exists. */
+  addMonths: (date: Date, amount: number) => Date;
+  daysInMonth: (date: Date) => number;
+}
+
+/**
+ * Only 12-month calendars are supported; those with leap months (hebrew, chinese, ...)
+ * fall back to Gregorian arithmetic.
+ */
+const TWELVE_MONTH_CALENDARS = new Set([
+  'islamic',
+  'islamic-umalqura',
+  'islamic-civil',
+  'islamic-tbla',
+  'islamic-rgsa',
+  'persian',
+  'indian',
+]);
+
+const LUNAR_MONTH_DAYS = 29.5306;
+const SOLAR_MONTH_DAYS = 30.4369;
+
+function clampDay(fields: CalendarFields, length: number) {
+  return Math.min(Math.max(fields.day, 1), length);
+}
+
+const gregorianSystem: CalendarSystem = {
+  id: 'gregory',
+  getFields: (date) => ({ year: date.getFullYear(), month: date.getMonth(), day: date.getDate() }),
+  fromFields: (fields) => {
+    const length = new Date(fields.year, fields.month + 1, 0).getDate();
+    const date = new Date(fields.year, fields.month, clampDay(fields, length));
+    date.setFullYear(fields.year);
+    return date;
+  },
+  startOfMonth: (date) => new Date(date.getFullYear(), date.getMonth(), 1),
+  addMonths: (date, amount) => {
+    const first = new Date(date.getFullYear(), date.getMonth() + amount, 1);
+    const length = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+    first.setDate(Math.min(date.getDate(), length));
+    first.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+    return first;
+  },
+  daysInMonth: (date) => new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate(),
+};
+
+function createIntlSystem(calendar: string): CalendarSystem {
+  const formatter = new Intl.DateTimeFormat(`en-US-u-ca-${calendar}-nu-latn`, {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  });
+  const averageMonth = calendar.startsWith('islamic') ? LUNAR_MONTH_DAYS : SOLAR_MONTH_DAYS;
+
+  const getFields = (date: Date): CalendarFields => {
+    const fields: Record<string, number> = {};
+    for (const part of formatter.formatToParts(date)) {
+      if (part.type === 'year' || part.type === 'month' || part.type === 'day') {
+        fields[part.type] = Number(part.value);
+      }
+    }
+    return { year: fields.year, month: fields.month - 1, day: fields.day };
+  };
+  const getMonthIndex = (date: Date) => {
+    const { year, month } = getFields(date);
+    return year * 12 + month;
+  };
+  const startOfMonth = (date: Date) => addDays(date, 1 - getFields(date).day);
+  // Months last 29–31 days, so 32 days past a month start always lands in the next month.
+  const nextMonthStart = (monthStart: Date) => startOfMonth(addDays(monthStart, 32));
+  const previousMonthStart = (monthStart: Date) => startOfMonth(addDays(monthStart, -1));
+  const daysInMonth = (date: Date) => {
+    const start = startOfMonth(date);
+    const next = nextMonthStart(start);
+    return Math.round((next.getTime() - start.getTime()) / 86_400_000);
+  };
+
+  // Jumps close to the target with the average month length, then walks month by month.
+  const moveToMonth = (from: Date, targetIndex: number) => {
+    const start = startOfMonth(from);
+    let cursor = startOfMonth(
+      addDays(start, Math.round((targetIndex - getMonthIndex(start)) * averageMonth)),
+    );
+    for (let guard = 0; guard < 24; guard++) {
+      const diff = targetIndex - getMonthIndex(cursor);
+      if (diff === 0) break;
+      cursor = diff > 0 ? nextMonthStart(cursor) : previousMonthStart(cursor);
+    }
+    return cursor;
+  };
+
+  const withDay = (monthStart: Date, day: number, source?: Date) => {
+    const next = addDays(
+      monthStart,
+      clampDay({ year: 0, month: 0, day }, daysInMonth(monthStart)) - 1,
+    );
+    if (source) {
+      next.setHours(
+        source.getHours(),
+        source.getMinutes(),
+        source.getSeconds(),
+        source.getMilliseconds(),
+      );
+    }
+    return next;
+  };
+
+  return {
+    id: calendar,
+    getFields,
+    fromFields: (fields) =>
+      withDay(moveToMonth(new Date(), fields.year * 12 + fields.month), fields.day),
+    startOfMonth,
+    addMonths: (date, amount) => {
+      const { day } = getFields(date);
+      return withDay(moveToMonth(date, getMonthIndex(date) + amount), day, date);
+    },
+    daysInMonth,
+  };
+}
+
+const systemCache = new Map<string, CalendarSystem>();
+
+/**
+ * Resolves the arithmetic for an Intl calendar identifier. Calendars that share Gregorian
+ * months (japanese, buddhist, roc, ...) reuse Gregorian arithmetic and differ only in labels.
+ */
+export function getCalendarSystem(calendar?: string): CalendarSystem {
+  if (!calendar || !TWELVE_MONTH_CALENDARS.has(calendar)) return gregorianSystem;
+  let system = systemCache.get(calendar);
+  if (!system) {
+    system = createIntlSystem(calendar);
+    systemCache.set(calendar, system);
+  }
+  return system;
+}
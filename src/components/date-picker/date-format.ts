@@ -0,0 +1,652 @@
+import { getCalendarSystem } from './calendar-system';
+
+export type DateField = 'day' | 'month' | 'year';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Separator placed between the start and end labels of a range.
+ */
+export const RANGE_SEPARATOR = ' – ';
+
+const DEFAULT_FIELD_ORDER: DateField[] = ['month', 'day', 'year'];
+
+/**
+ * Resolves the order in which day, month and year appear in numeric dates for a locale.
+ */
+export function getDateFieldOrder(locale: string, calendar?: string): DateField[] {
+  return getFieldOrder(locale, '2-digit', calendar);
+}
+
+// Month names can move the fields around (`۱۴۰۳/۱۲/۲۴` but `۲۴ اسفند ۱۴۰۳`), so the order is
+// read from the same kind of label the text came from.
+function getFieldOrder(locale: string, month: '2-digit' | 'short', calendar?: string): DateField[] {
+  try {
+    const parts = getCalendarFormatter(
+      locale,
+      { year: 'numeric', month, day: month === 'short' ? 'numeric' : '2-digit' },
+      calendar,
+    ).formatToParts(new Date(2023, 10, 22));
+    const order = parts
+      .map((part) => part.type)
+      .filter((type): type is DateField => type === 'day' || type === 'month' || type === 'year');
+    return order.length === 3 ? order : DEFAULT_FIELD_ORDER;
+  } catch {
+    return DEFAULT_FIELD_ORDER;
+  }
+}
+
+const RTL_LANGUAGES = new Set(['ar', 'ckb', 'dv', 'fa', 'he', 'iw', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+/**
+ * Resolves whether a locale is written right-to-left, from its language subtag.
+ */
+export function getLocaleDirection(locale: string): TextDirection {
+  try {
+    const resolved = new Intl.DateTimeFormat(locale).resolvedOptions().locale;
+    return RTL_LANGUAGES.has(new Intl.Locale(resolved).language) ? 'rtl' : 'ltr';
+  } catch {
+    return 'ltr';
+  }
+}
+
+function normalizeMonthName(value: string) {
+  return value.toLocaleLowerCase().replace(/\./g, '').trim();
+}
+
+function getCalendarFormatter(
+  locale: string,
+  options: Intl.DateTimeFormatOptions,
+  calendar?: string,
+) {
+  return new Intl.DateTimeFormat(locale, { ...options, ...(calendar ? { calendar } : {}) });
+}
+
+function getMonthNames(locale: string, calendar?: string) {
+  const system = getCalendarSystem(calendar);
+  const long = getCalendarFormatter(locale, { month: 'long' }, calendar);
+  const short = getCalendarFormatter(locale, { month: 'short' }, calendar);
+  const { year } = system.getFields(new Date(2020, 0, 1));
+  return Array.from({ length: 12 }).map((_, month) => {
+    const date = system.fromFields({ year, month, day: 1 });
+    return [normalizeMonthName(long.format(date)), normalizeMonthName(short.format(date))];
+  });
+}
+
+function matchMonthName(token: string, locale: string, calendar?: string): number | null {
+  const needle = normalizeMonthName(token);
+  if (needle.length < 3) return null;
+  const names = getMonthNames(locale, calendar);
+  const index = names.findIndex((candidates) =>
+    candidates.some((name) => name === needle || name.startsWith(needle)),
+  );
+  return index === -1 ? null : index;
+}
+
+/**
+ * Finds a full month name anywhere in the text, preferring the longest match so multi-word
+ * names (`Rabiʻ II`) and names sharing a prefix resolve correctly.
+ */
+function findMonthName(text: string, locale: string, calendar?: string) {
+  const haystack = normalizeMonthName(text);
+  let best: { month: number; name: string } | null = null;
+  for (const [month, candidates] of getMonthNames(locale, calendar).entries()) {
+    for (const name of candidates) {
+      if (name.length < 2 || !haystack.includes(name)) continue;
+      if (!best || name.length > best.name.length) best = { month, name };
+    }
+  }
+  return best;
+}
+
+/** Sample years spanning the eras of the japanese and roc calendars. */
+const ERA_SAMPLE_YEARS = [1900, 1920, 1950, 2000, 2023];
+
+/**
+ * Words the locale prints around the fields (`年`, `de`, era names such as `AH`), which typed
+ * text may repeat but which never name a month.
+ */
+function getLiteralWords(locale: string, calendar?: string) {
+  const words = new Set<string>();
+  for (const month of ['numeric', 'short', 'long'] as const) {
+    const formatter = getCalendarFormatter(
+      locale,
+      { year: 'numeric', month, day: 'numeric' },
+      calendar,
+    );
+    for (const year of ERA_SAMPLE_YEARS) {
+      for (const part of formatter.formatToParts(new Date(year, 10, 22))) {
+        if (part.type !== 'literal' && part.type !== 'era') continue;
+        for (const word of part.value.match(/\p{L}+/gu) ?? []) words.add(normalizeMonthName(word));
+      }
+    }
+  }
+  return words;
+}
+
+/**
+ * Replaces the locale's native digits (Arabic-Indic, Devanagari, ...) with ASCII digits.
+ */
+function normalizeDigits(text: string, locale: string) {
+  const formatter = new Intl.NumberFormat(locale, { useGrouping: false });
+  const digits = new Map<string, string>();
+  for (let digit = 0; digit < 10; digit++) digits.set(formatter.format(digit), String(digit));
+  if (digits.has('0')) return text;
+  return Array.from(text, (char) => digits.get(char) ?? char).join('');
+}
+
+function toFullYear(value: string) {
+  const year = Number(value);
+  return value.length <= 2 ? 2000 + year : year;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (!Number.isFinite(year) || !Number.isFinite(month) || !Number.isFinite(day)) return null;
+  if (month < 0 || month > 11 || day < 1) return null;
+  const date = new Date(year, month, day);
+  date.setFullYear(year);
+  if (date.getMonth() !== month || date.getDate() !== day) return null;
+  return date;
+}
+
+const GREGORIAN_YEAR_CALENDARS = new Set(['gregory', 'iso8601']);
+const MAX_ERA_SCAN_YEAR = 2200;
+
+/**
+ * Calendars with Gregorian months but their own year numbering (japanese, buddhist, roc, ...)
+ * are matched by scanning Gregorian years. An era named in the text picks between equal era
+ * years; without one the latest match wins.
+ */
+function buildEraDate(
+  year: number,
+  month: number,
+  day: number,
+  { locale, calendar, text }: { locale: string; calendar: string; text: string },
+) {
+  const yearFormatter = getCalendarFormatter(locale, { year: 'numeric' }, calendar);
+  const eraFormatters = (['long', 'short', 'narrow'] as const).map((era) =>
+    getCalendarFormatter(locale, { year: 'numeric', era }, calendar),
+  );
+  const words = new Set((text.match(/\p{L}+/gu) ?? []).map(normalizeMonthName));
+  let latest: Date | null = null;
+  let gregorianYear = MAX_ERA_SCAN_YEAR;
+  while (gregorianYear > 0) {
+    const date = buildDate(gregorianYear, month, day);
+    if (!date) {
+      gregorianYear -= 1;
+      continue;
+    }
+    const yearPart = yearFormatter.formatToParts(date).find((part) => part.type === 'year');
+    const eraYear = Number(normalizeDigits(yearPart?.value ?? '', locale));
+    if (eraYear !== year) {
+      // Era years advance with Gregorian ones: jump to where this era reaches `year`, or past
+      // its first year when it starts above `year`.
+      gregorianYear -= eraYear > year ? eraYear - year : Math.max(eraYear || 0, 1);
+      continue;
+    }
+    const eras = eraFormatters
+      .map((formatter) => formatter.formatToParts(date).find((part) => part.type === 'era'))
+      .map((part) => normalizeMonthName(part?.value ?? ''));
+    if (eras.some((era) => words.has(era))) return date;
+    latest ??= date;
+    gregorianYear -= 1;
+  }
+  return latest;
+}
+
+function buildCalendarDate(
+  year: number,
+  month: number,
+  day: number,
+  { locale, calendar, text }: { locale: string; calendar?: string; text: string },
+) {
+  const system = getCalendarSystem(calendar);
+  if (system.id === 'gregory') {
+    if (!calendar || GREGORIAN_YEAR_CALENDARS.has(calendar)) return buildDate(year, month, day);
+    return buildEraDate(year, month, day, { locale, calendar, text });
+  }
+  if (![year, month, day].every(Number.isFinite) || month < 0 || month > 11 || day < 1) {
+    return null;
+  }
+  const date = system.fromFields({ year, month, day });
+  date.setHours(0, 0, 0, 0);
+  const fields = system.getFields(date);
+  return fields.year === year && fields.month === month && fields.day === day ? date : null;
+}
+
+const TIME_PATTERN = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap])?\.?\s?(?:m\.?)?/i;
+
+export interface ParsedDate {
+  date: Date;
+  /**
+   * Whether the text carried its own time of day.
+   */
+  hasTime: boolean;
+}
+
+function applyClock(date: Date, hours: number, minutes: number, seconds: number, period?: string) {
+  let nextHours = hours;
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    nextHours = (hours % 12) + (period.toLowerCase() === 'p' ? 12 : 0);
+  }
+  if (nextHours > 23 || minutes > 59 || seconds > 59) return null;
+  date.setHours(nextHours, minutes, seconds, 0);
+  return date;
+}
+
+function parseLocaleDate(text: string, locale: string, calendar?: string): ParsedDate | null {
+  const normalized = normalizeDigits(text, locale);
+  const timeMatch = normalized.match(TIME_PATTERN);
+  let dateText = timeMatch ? normalized.replace(timeMatch[0], ' ') : normalized;
+  const fullMonth = findMonthName(dateText, locale, calendar);
+  if (fullMonth) dateText = normalizeMonthName(dateText).replace(fullMonth.name, ' ');
+  const literalWords = getLiteralWords(locale, calendar);
+  const tokens = (dateText.trim().match(/\d+|\p{L}+/gu) ?? []).filter(
+    (token) => !literalWords.has(normalizeMonthName(token)),
+  );
+  if (!tokens.length) return null;
+
+  const numbers = tokens.filter((token) => /^\d+$/.test(token));
+  const words = tokens.filter((token) => !/^\d+$/.test(token));
+  const toDate = (year: string, month: number, day: number) =>
+    buildCalendarDate(
+      // Two-digit years are only expanded for Gregorian year numbers; era years stay short.
+      !calendar || GREGORIAN_YEAR_CALENDARS.has(calendar) ? toFullYear(year) : Number(year),
+      month,
+      day,
+      { locale, calendar, text: normalized },
+    );
+  let date: Date | null = null;
+
+  if (fullMonth || words.length > 0) {
+    const month =
+      fullMonth?.month ??
+      words.map((word) => matchMonthName(word, locale, calendar)).find((index) => index != null);
+    if (month == null || numbers.length !== 2) return null;
+    const [first, second] = getFieldOrder(locale, 'short', calendar).filter(
+      (field) => field !== 'month',
+    );
+    const fields = { [first]: numbers[0], [second]: numbers[1] } as Record<DateField, string>;
+    // Longer styles may lead with the year (`۱۴۰۳ اسفند ۲۴`); a long number is never the day.
+    if (fields.day.length > 2 && fields.year.length <= 2) {
+      [fields.day, fields.year] = [fields.year, fields.day];
+    }
+    date = toDate(fields.year, month, Number(fields.day));
+  } else if (numbers.length === 3 && numbers[0].length === 4) {
+    const [year, month, day] = numbers;
+    date = toDate(year, Number(month) - 1, Number(day));
+  } else if (numbers.length === 3) {
+    const fields = {} as Record<DateField, string>;
+    getDateFieldOrder(locale, calendar).forEach((field, index) => {
+      fields[field] = numbers[index];
+    });
+    date = toDate(fields.year, Number(fields.month) - 1, Number(fields.day));
+  }
+
+  if (!date) return null;
+  if (!timeMatch) return { date, hasTime: false };
+  const [, hours, minutes, seconds = '0', period] = timeMatch;
+  const withTime = applyClock(date, Number(hours), Number(minutes), Number(seconds), period);
+  return withTime ? { date: withTime, hasTime: true } : null;
+}
+
+/**
+ * Parses a typed date using the locale's field order. Accepts numeric input such as
+ * `03/14/2025`, ISO `2025-03-14`, month names like `Mar 14, 2025`, the locale's own labels
+ * (`2025年3月14日`, `١٤ مارس ٢٠٢٥`), optionally followed by a time such as `09:30` or `9:30 PM`.
+ * With `calendar`, fields and month names are read in that calendar.
+ * Returns `null` when the text does not describe a valid calendar date.
+ */
+export function parseDateString(text: string, locale: string, calendar?: string): Date | null {
+  return parseLocaleDate(text, locale, calendar)?.date ?? null;
+}
+
+const PATTERN_TOKEN = /'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|m|ss|s|a/g;
+
+type PatternToken = { token: string } | { literal: string };
+
+function tokenizePattern(pattern: string): PatternToken[] {
+  const tokens: PatternToken[] = [];
+  let lastIndex = 0;
+  for (const match of pattern.matchAll(PATTERN_TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) tokens.push({ literal: pattern.slice(lastIndex, index) });
+    if (match[1] !== undefined) {
+      tokens.push({ literal: match[1] || "'" });
+    } else {
+      tokens.push({ token: match[0] });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < pattern.length) tokens.push({ literal: pattern.slice(lastIndex) });
+  return tokens;
+}
+
+function getDayPeriod(date: Date, locale: string) {
+  const part = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true })
+    .formatToParts(date)
+    .find((item) => item.type === 'dayPeriod');
+  return part?.value ?? (date.getHours() < 12 ? 'AM' : 'PM');
+}
+
+function formatPatternToken(token: string, date: Date, locale: string) {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours12 = date.getHours() % 12 || 12;
+  switch (token) {
+    case 'yyyy':
+      return pad(date.getFullYear(), 4);
+    case 'yy':
+      return pad(date.getFullYear() % 100);
+    case 'MMMM':
+      return new Intl.DateTimeFormat(locale, { month: 'long' }).format(date);
+    case 'MMM':
+      return new Intl.DateTimeFormat(locale, { month: 'short' }).format(date);
+    case 'MM':
+      return pad(date.getMonth() + 1);
+    case 'M':
+      return String(date.getMonth() + 1);
+    case 'dd':
+      return pad(date.getDate());
+    case 'd':
+      return String(date.getDate());
+    case 'EEEE':
+      return new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(date);
+    case 'EEE':
+      return new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(date);
+    case 'HH':
+      return pad(date.getHours());
+    case 'H':
+      return String(date.getHours());
+    case 'hh':
+      return pad(hours12);
+    case 'h':
+      return String(hours12);
+    case 'mm':
+      return pad(date.getMinutes());
+    case 'm':
+      return String(date.getMinutes());
+    case 'ss':
+      return pad(date.getSeconds());
+    case 's':
+      return String(date.getSeconds());
+    case 'a':
+      return getDayPeriod(date, locale);
+    default:
+      return token;
+  }
+}
+
+/**
+ * Formats a date with a pattern such as `yyyy-MM-dd HH:mm`. Supported tokens:
+ * `yyyy yy MMMM MMM MM M dd d EEEE EEE HH H hh h mm m ss s a`; wrap literal text
+ * in single quotes.
+ */
+export function formatDatePattern(date: Date, pattern: string, locale: string = 'default') {
+  return tokenizePattern(pattern)
+    .map((item) =>
+      'literal' in item ? item.literal : formatPatternToken(item.token, date, locale),
+    )
+    .join('');
+}
+
+function getPatternTokenSource(token: string) {
+  switch (token) {
+    case 'yyyy':
+      return '(\\d{4})';
+    case 'yy':
+      return '(\\d{2})';
+    case 'MMMM':
+    case 'MMM':
+    case 'EEEE':
+    case 'EEE':
+      return '(\\p{L}+\\.?)';
+    case 'a':
+      return '([^\\d\\s]+)';
+    default:
+      return '(\\d{1,2})';
+  }
+}
+
+function patternHasTime(pattern: string) {
+  return tokenizePattern(pattern).some((item) => 'token' in item && /^[Hh]/.test(item.token));
+}
+
+/**
+ * Parses text produced by `formatDatePattern`. Returns `null` when the text does not
+ * match the pattern or describes an invalid date.
+ */
+export function parseDatePattern(
+  text: string,
+  pattern: string,
+  locale: string = 'default',
+): Date | null {
+  const tokens = tokenizePattern(pattern);
+  const fieldTokens: string[] = [];
+  const source = tokens
+    .map((item) => {
+      if ('literal' in item) {
+        return item.literal.split(/\s+/).map(escapeRegExp).join('\\s*');
+      }
+      fieldTokens.push(item.token);
+      return getPatternTokenSource(item.token);
+    })
+    .join('');
+  const match = text.trim().match(new RegExp(`^${source}$`, 'iu'));
+  if (!match) return null;
+
+  let year = new Date().getFullYear();
+  let month = 0;
+  let day = 1;
+  let hours = 0;
+  let minutes = 0;
+  let seconds = 0;
+  let period: string | undefined;
+
+  for (let index = 0; index < fieldTokens.length; index++) {
+    const token = fieldTokens[index];
+    const raw = match[index + 1];
+    switch (token) {
+      case 'yyyy':
+      case 'yy':
+        year = toFullYear(raw);
+        break;
+      case 'MMMM':
+      case 'MMM': {
+        const parsed = matchMonthName(raw, locale);
+        if (parsed == null) return null;
+        month = parsed;
+        break;
+      }
+      case 'MM':
+      case 'M':
+        month = Number(raw) - 1;
+        break;
+      case 'dd':
+      case 'd':
+        day = Number(raw);
+        break;
+      case 'HH':
+      case 'H':
+        hours = Number(raw);
+        break;
+      case 'hh':
+      case 'h':
+        hours = Number(raw);
+        period = period ?? 'a';
+        break;
+      case 'mm':
+      case 'm':
+        minutes = Number(raw);
+        break;
+      case 'ss':
+      case 's':
+        seconds = Number(raw);
+        break;
+      case 'a': {
+        const value = raw.trim().toLowerCase();
+        const pm = getDayPeriod(new Date(2020, 0, 1, 15), locale).toLowerCase();
+        period = value === pm || value.startsWith('p') ? 'p' : 'a';
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  const date = buildDate(year, month, day);
+  if (!date) return null;
+  return applyClock(date, hours, minutes, seconds, period);
+}
+
+export interface DateFormatterOptions {
+  locale: string;
+  /**
+   * Pattern string or formatting function. Takes precedence over `formatOptions`.
+   */
+  format?: string | ((date: Date, locale: string) => string);
+  /**
+   * Custom parser for typed text. Defaults to the pattern or locale parser.
+   */
+  parse?: (text: string, locale: string) => Date | null;
+  /**
+   * `Intl.DateTimeFormat` options used when no `format` is provided.
+   */
+  formatOptions?: Intl.DateTimeFormatOptions;
+  /**
+   * Intl calendar for the default output and parser, such as `islamic-umalqura`. Patterns
+   * stay Gregorian.
+   */
+  calendar?: string;
+  /**
+   * Adds the time of day to the default output.
+   */
+  withTime?: boolean;
+}
+
+export interface DateFormatter {
+  format: (date: Date) => string;
+  parse: (text: string) => ParsedDate | null;
+}
+
+const DEFAULT_FORMAT_OPTIONS: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+};
+
+function hasTimeOptions(options: Intl.DateTimeFormatOptions) {
+  return (
+    options.hour !== undefined ||
+    options.minute !== undefined ||
+    options.second !== undefined ||
+    options.timeStyle !== undefined
+  );
+}
+
+function resolveFormatOptions(
+  options: Intl.DateTimeFormatOptions = DEFAULT_FORMAT_OPTIONS,
+  withTime = false,
+): Intl.DateTimeFormatOptions {
+  if (!withTime || hasTimeOptions(options)) return options;
+  if (options.dateStyle) return { ...options, timeStyle: 'short' };
+  return { ...options, hour: '2-digit', minute: '2-digit' };
+}
+
+/**
+ * Builds the format/parse pair used by the input label and typed input.
+ */
+export function createDateFormatter(options: DateFormatterOptions): DateFormatter {
+  const { locale, format, parse, formatOptions, calendar, withTime = false } = options;
+
+  if (typeof format === 'string') {
+    const hasTime = patternHasTime(format);
+    return {
+      format: (date) => formatDatePattern(date, format, locale),
+      parse: (text) => {
+        const date = parse ? parse(text, locale) : parseDatePattern(text, format, locale);
+        return date ? { date, hasTime } : null;
+      },
+    };
+  }
+
+  const intlFormatter = new Intl.DateTimeFormat(locale, {
+    ...resolveFormatOptions(formatOptions, withTime),
+    ...(calendar ? { calendar } : {}),
+  });
+  return {
+    format: (date) => (format ? format(date, locale) : intlFormatter.format(date)),
+    parse: (text) => {
+      if (parse) {
+        const date = parse(text, locale);
+        return date ? { date, hasTime: withTime } : null;
+      }
+      return parseLocaleDate(text, locale, calendar);
+    },
+  };
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits typed range text into its start and end segments. The separator is matched as
+ * typed first, then with any amount of whitespace around it, and only then without whitespace
+ * (`3/14–3/20`), so a hyphen separator does not split ISO dates such as `2025-03-14`.
+ * Word separators such as `to` always need surrounding whitespace.
+ */
+export function splitRangeString(text: string, separator: string = RANGE_SEPARATOR): string[] {
+  const exact = text.split(separator).map((segment) => segment.trim());
+  const core = separator.trim();
+  if (!core || exact.length === 2) return exact;
+  const pattern = escapeRegExp(core);
+  const candidates = [new RegExp(`\\s+${pattern}\\s+`, 'u')];
+  if (!/^[\p{L}\p{N}]/u.test(core)) candidates.push(new RegExp(`\\s*${pattern}\\s*`, 'u'));
+  for (const candidate of candidates) {
+    const segments = text.split(candidate).map((segment) => segment.trim());
+    if (segments.length === 2) return segments;
+  }
+  return exact;
+}
+
+export type DateSegmentType = DateField | 'hour' | 'minute' | 'second';
+
+export type DateSegmentLayoutItem = { type: DateSegmentType } | { type: 'literal'; text: string };
+
+const SEGMENT_TYPES: DateSegmentType[] = ['day', 'month', 'year', 'hour', 'minute', 'second'];
+
+/**
+ * Resolves the segment order and literal separators for a locale via `formatToParts`.
+ */
+export function getDateSegmentLayout(
+  locale: string,
+  withTime = false,
+  withSeconds = false,
+): DateSegmentLayoutItem[] {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat(locale, {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      ...(withTime ? { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' } : {}),
+      ...(withTime && withSeconds ? { second: '2-digit' } : {}),
+    }).formatToParts(new Date(2023, 10, 22, 13, 45, 30));
+  } catch {
+    parts = new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(new Date(2023, 10, 22));
+  }
+
+  return parts.reduce<DateSegmentLayoutItem[]>((items, part) => {
+    if ((SEGMENT_TYPES as string[]).includes(part.type)) {
+      items.push({ type: part.type as DateSegmentType });
+    } else if (part.type === 'literal') {
+      items.push({ type: 'literal', text: part.value });
+    }
+    return items;
+  }, []);
+}
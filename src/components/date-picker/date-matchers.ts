@@ -0,0 +1,57 @@
+import { getDayIndex } from './date-utils';
+
+/**
+ * Declarative description of a set of days. Arrays match when any entry matches, so a plain
+ * `Date[]` lists individual days. `before` and `after` are exclusive; together they match the
+ * days strictly between them. `from` and `to` are inclusive.
+ */
+export type DateMatcher =
+  | Date
+  | ((date: Date) => boolean)
+  | { dayOfWeek: number | number[] }
+  | { before: Date; after?: Date }
+  | { after: Date; before?: Date }
+  | { from: Date; to: Date }
+  | DateMatcher[];
+
+export function matchDate(date: Date, matcher: DateMatcher): boolean {
+  if (Array.isArray(matcher)) return matcher.some((entry) => matchDate(date, entry));
+  if (typeof matcher === 'function') return matcher(date);
+  const day = getDayIndex(date);
+  if (matcher instanceof Date) return day === getDayIndex(matcher);
+  if ('dayOfWeek' in matcher) {
+    const days = Array.isArray(matcher.dayOfWeek) ? matcher.dayOfWeek : [matcher.dayOfWeek];
+    return days.includes(date.getDay());
+  }
+  if ('from' in matcher) {
+    const from = getDayIndex(matcher.from);
+    const to = getDayIndex(matcher.to);
+    return day >= Math.min(from, to) && day <= Math.max(from, to);
+  }
+  return (
+    (!matcher.before || day < getDayIndex(matcher.before)) &&
+    (!matcher.after || day > getDayIndex(matcher.after))
+  );
+}
+
+/**
+ * Rewrites every date of a matcher with `mapDate`; predicates receive their argument converted
+ * back with `unmapDate`. The picker uses it to evaluate matchers in its `timeZone`.
+ */
+export function mapDateMatcher(
+  matcher: DateMatcher,
+  mapDate: (date: Date) => Date,
+  unmapDate: (date: Date) => Date,
+): DateMatcher {
+  if (Array.isArray(matcher)) {
+    return matcher.map((entry) => mapDateMatcher(entry, mapDate, unmapDate));
+  }
+  if (typeof matcher === 'function') return (date: Date) => matcher(unmapDate(date));
+  if (matcher instanceof Date) return mapDate(matcher);
+  if ('dayOfWeek' in matcher) return matcher;
+  if ('from' in matcher) return { from: mapDate(matcher.from), to: mapDate(matcher.to) };
+  return {
+    before: matcher.before && mapDate(matcher.before),
+    after: matcher.after && mapDate(matcher.after),
+  } as DateMatcher;
+}
@@ -2,6 +2,8 @@ const datePickerParts = [
   'root',
   'control',
   'input',
+  'segmentedInput',
+  'segment',
   'trigger',
   'content',
   'header',
@@ -10,13 +12,26 @@ const datePickerParts = [
   'month',
   'year',
   'calendar',
+  'months',
+  'monthView',
+  'monthCaption',
   'weekdays',
   'weekday',
   'grid',
+  'weekNumber',
   'day',
+  'viewGrid',
+  'viewCell',
   'time',
   'timeInput',
+  'timePicker',
+  'timeColumn',
+  'timeOption',
+  'presets',
+  'preset',
   'footer',
+  'liveRegion',
+  'hiddenInput',
 ] as const;
 
 type DatePickerSlot = (typeof datePickerParts)[number];
@@ -108,6 +123,19 @@ const baseStyle = definePartsStyle((props) => {
           '0 0 0 1px rgba(148, 163, 184, 0.45)',
         )(props),
       },
+      _invalid: {
+        borderColor: mode('red.500', 'red.300')(props),
+        _focusWithin: {
+          boxShadow: mode(
+            '0 0 0 1px var(--chakra-colors-red-500)',
+            '0 0 0 1px var(--chakra-colors-red-300)',
+          )(props),
+        },
+      },
+      _disabled: {
+        opacity: 0.4,
+        cursor: 'not-allowed',
+      },
     },
     input: {
       flex: 1,
@@ -118,6 +146,29 @@ const baseStyle = definePartsStyle((props) => {
       color: 'inherit',
       _placeholder: { color: placeholder },
       _focus: { outline: 'none' },
+      _invalid: {
+        _placeholder: { color: mode('red.500', 'red.300')(props) },
+      },
+    },
+    segmentedInput: {
+      flex: 1,
+      minW: 0,
+      display: 'flex',
+      alignItems: 'center',
+      whiteSpace: 'pre',
+      fontSize: 'sm',
+      fontVariantNumeric: 'tabular-nums',
+    },
+    segment: {
+      px: 0.5,
+      borderRadius: 'sm',
+      outline: 0,
+      caretColor: 'transparent',
+      '&[data-placeholder="true"]': { color: placeholder },
+      _focus: {
+        bg: mode(`${colorScheme}.100`, 'rgba(244, 244, 245, 0.24)')(props),
+        color: text,
+      },
     },
     trigger: {
       display: 'inline-flex',
@@ -182,6 +233,16 @@ const baseStyle = definePartsStyle((props) => {
       fontWeight: 'semibold',
       letterSpacing: '-0.01em',
       color: text,
+      bg: 'transparent',
+      borderRadius: 'lg',
+      py: 1,
+      cursor: 'pointer',
+      _hover: { bg: hoverBg },
+      _focusVisible: {
+        outline: 'none',
+        boxShadow: `0 0 0 2px var(--chakra-colors-${colorScheme}-200)`,
+      },
+      _disabled: { cursor: 'default', bg: 'transparent' },
     },
     month: {
       position: 'absolute',
@@ -210,6 +271,23 @@ const baseStyle = definePartsStyle((props) => {
       flexDirection: 'column',
       gap: 4,
     },
+    months: {
+      display: 'flex',
+      alignItems: 'flex-start',
+      gap: 8,
+    },
+    monthView: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 4,
+      flex: 1,
+    },
+    monthCaption: {
+      textAlign: 'center',
+      fontSize: 'md',
+      fontWeight: 'semibold',
+      color: text,
+    },
     weekdays: {
       display: 'grid',
       gridTemplateColumns: 'repeat(7, 1fr)',
@@ -218,6 +296,9 @@ const baseStyle = definePartsStyle((props) => {
       textTransform: 'uppercase',
       letterSpacing: 'widest',
       color: textSubtle,
+      '&[data-week-numbers="true"]': {
+        gridTemplateColumns: 'auto repeat(7, 1fr)',
+      },
     },
     weekday: {
       textAlign: 'center',
@@ -227,6 +308,27 @@ const baseStyle = definePartsStyle((props) => {
       display: 'grid',
       gridTemplateColumns: 'repeat(7, 1fr)',
       gap: 2,
+      '&[data-week-numbers="true"]': {
+        gridTemplateColumns: 'auto repeat(7, 1fr)',
+      },
+      '&[data-loading="true"]': {
+        opacity: 0.6,
+        cursor: 'progress',
+      },
+    },
+    weekNumber: {
+      display: 'inline-flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minW: 8,
+      fontSize: 'xs',
+      fontWeight: 'semibold',
+      color: textSubtle,
+      borderRadius: 'md',
+      '&[data-clickable="true"]': {
+        cursor: 'pointer',
+        _hover: { bg: hoverBg, color: text },
+      },
     },
     day: {
       display: 'inline-flex',
@@ -259,6 +361,17 @@ const baseStyle = definePartsStyle((props) => {
         bg: rangeBg,
         color: mode(`${colorScheme}.800`, text)(props),
       },
+      '&[data-in-preview="true"]:not([data-selected="true"])': {
+        bg: rangeBg,
+        borderWidth: '1px',
+        borderStyle: 'dashed',
+        borderColor: borderSoft,
+      },
+      '&:is([data-range-start="true"], [data-range-end="true"]):not([data-selected="true"])': {
+        borderWidth: '1px',
+        borderColor: mode(`${colorScheme}.600`, 'rgba(244, 244, 245, 0.42)')(props),
+        color: mode(`${colorScheme}.700`, 'rgba(244, 244, 245, 0.92)')(props),
+      },
       '&[data-today="true"]': {
         borderWidth: '1px',
         borderColor: todayBorder,
@@ -278,6 +391,51 @@ const baseStyle = definePartsStyle((props) => {
       '&[data-outside="true"]': {
         color: mode('gray.400', textSubtle)(props),
       },
+      '&[data-week-hover="true"]:not([data-selected="true"])': {
+        bg: hoverBg,
+      },
+      '&[data-hidden="true"]': {
+        visibility: 'hidden',
+      },
+    },
+    viewGrid: {
+      display: 'grid',
+      gridTemplateColumns: 'repeat(3, 1fr)',
+      gap: 3,
+    },
+    viewCell: {
+      display: 'inline-flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderRadius: 'full',
+      h: 12,
+      px: 2,
+      fontWeight: 'medium',
+      fontSize: 'sm',
+      whiteSpace: 'nowrap',
+      transitionProperty: 'common',
+      transitionDuration: 'fast',
+      color: text,
+      _hover: { bg: hoverBg },
+      _focusVisible: {
+        boxShadow: `0 0 0 2px var(--chakra-colors-${colorScheme}-200)`,
+      },
+      _disabled: {
+        opacity: 0.4,
+        cursor: 'not-allowed',
+      },
+      '&[data-selected="true"]': {
+        bg: mode(`${colorScheme}.500`, 'rgba(148, 163, 184, 0.3)')(props),
+        color: selectedColor,
+      },
+      '&[data-today="true"]': {
+        borderWidth: '1px',
+        borderColor: todayBorder,
+        fontWeight: 'semibold',
+      },
+      '&[data-outside="true"]': {
+        color: mode('gray.400', textSubtle)(props),
+      },
     },
     time: {
       mt: 6,
@@ -297,12 +455,109 @@ const baseStyle = definePartsStyle((props) => {
       _focusVisible: {
         boxShadow: `0 0 0 2px var(--chakra-colors-${colorScheme}-200)`,
       },
+      _invalid: {
+        borderColor: mode('red.500', 'red.300')(props),
+      },
+    },
+    timePicker: {
+      mt: 6,
+    },
+    timeColumn: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 0.5,
+      maxH: '12rem',
+      overflowY: 'auto',
+      p: 1,
+      borderRadius: 'lg',
+      borderWidth: '1px',
+      borderColor: borderSoft,
+      _focusVisible: {
+        outline: 'none',
+        boxShadow: `0 0 0 2px var(--chakra-colors-${colorScheme}-200)`,
+      },
+      _invalid: {
+        borderColor: mode('red.500', 'red.300')(props),
+      },
+    },
+    timeOption: {
+      minW: '2.75rem',
+      px: 2.5,
+      py: 1.5,
+      borderRadius: 'md',
+      textAlign: 'center',
+      fontVariantNumeric: 'tabular-nums',
+      color: textMuted,
+      cursor: 'pointer',
+      _hover: { color: text, bg: hoverBg },
+      '&[data-selected="true"]': {
+        bg: mode(`${colorScheme}.500`, 'rgba(148, 163, 184, 0.3)')(props),
+        color: selectedColor,
+      },
+      '&[data-disabled="true"]': {
+        opacity: 0.4,
+        cursor: 'not-allowed',
+        bg: 'transparent',
+      },
+    },
+    presets: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 1,
+      minW: '9rem',
+      pe: 5,
+      borderEndWidth: '1px',
+      borderColor: borderSoft,
+    },
+    preset: {
+      textAlign: 'start',
+      borderRadius: 'lg',
+      px: 3,
+      py: 2,
+      color: textMuted,
+      bg: 'transparent',
+      whiteSpace: 'nowrap',
+      transitionProperty: 'background, color',
+      transitionDuration: 'fast',
+      _hover: { color: text, bg: hoverBg },
+      _focusVisible: {
+        outline: 'none',
+        boxShadow: `0 0 0 2px var(--chakra-colors-${colorScheme}-200)`,
+      },
+      '&[data-active="true"]': {
+        bg: mode(`${colorScheme}.500`, 'rgba(148, 163, 184, 0.3)')(props),
+        color: selectedColor,
+      },
+      _disabled: { opacity: 0.4, cursor: 'not-allowed', bg: 'transparent' },
     },
     footer: {
       mt: 6,
       justifyContent: 'space-between',
       alignItems: 'center',
     },
+    liveRegion: {
+      position: 'absolute',
+      w: '1px',
+      h: '1px',
+      p: 0,
+      m: '-1px',
+      overflow: 'hidden',
+      clip: 'rect(0, 0, 0, 0)',
+      whiteSpace: 'nowrap',
+      border: '0',
+    },
+    hiddenInput: {
+      position: 'absolute',
+      w: '1px',
+      h: '1px',
+      p: 0,
+      m: '-1px',
+      overflow: 'hidden',
+      clip: 'rect(0, 0, 0, 0)',
+      border: '0',
+      opacity: 0,
+      pointerEvents: 'none',
+    },
   };
 });
 
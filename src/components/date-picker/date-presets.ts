@@ -0,0 +1,79 @@
+import { addDays, getWeekStart, startOfDay } from './date-utils';
+import { formatMessage } from './translations';
+import type { DatePickerTranslations } from './translations';
+import type { DateRangeValue } from './use-date-picker';
+
+export type DatePresetValue = DateRangeValue | Date;
+
+export interface DatePresetContext {
+  weekStartsOn: number;
+  minDate?: Date | null;
+  maxDate?: Date | null;
+}
+
+export interface DatePickerPreset {
+  /**
+   * Button text, or a function reading it from the picker's translations.
+   */
+  label: string | ((translations: DatePickerTranslations) => string);
+  /**
+   * Fixed value or a factory evaluated against the current time whenever the preset
+   * is applied or compared with the selection.
+   */
+  value: DatePresetValue | ((now: Date, context: DatePresetContext) => DatePresetValue);
+}
+
+function range(start: Date, end: Date): DateRangeValue {
+  return { start: startOfDay(start), end: startOfDay(end) };
+}
+
+/**
+ * Built-in preset factories. Each returns a range ending no later than today; the picker
+ * clamps the result to `minDate`/`maxDate` and adapts it to the selection mode. Without a
+ * `label`, the text comes from the picker's translations.
+ */
+export const datePresets = {
+  today: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetToday),
+    value: (now) => range(now, now),
+  }),
+  yesterday: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetYesterday),
+    value: (now) => range(addDays(now, -1), addDays(now, -1)),
+  }),
+  lastDays: (days: number, label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => formatMessage(translations.presetLastDays, { count: days })),
+    value: (now) => range(addDays(now, -(Math.max(1, days) - 1)), now),
+  }),
+  weekToDate: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetWeekToDate),
+    value: (now, { weekStartsOn }) => range(getWeekStart(now, weekStartsOn), now),
+  }),
+  previousWeek: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetPreviousWeek),
+    value: (now, { weekStartsOn }) => {
+      const start = addDays(getWeekStart(now, weekStartsOn), -7);
+      return range(start, addDays(start, 6));
+    },
+  }),
+  monthToDate: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetMonthToDate),
+    value: (now) => range(new Date(now.getFullYear(), now.getMonth(), 1), now),
+  }),
+  previousMonth: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetPreviousMonth),
+    value: (now) =>
+      range(
+        new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        new Date(now.getFullYear(), now.getMonth(), 0),
+      ),
+  }),
+  quarterToDate: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetQuarterToDate),
+    value: (now) => range(new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1), now),
+  }),
+  yearToDate: (label?: string): DatePickerPreset => ({
+    label: label ?? ((translations) => translations.presetYearToDate),
+    value: (now) => range(new Date(now.getFullYear(), 0, 1), now),
+  }),
+};
@@ -0,0 +1,26 @@
+/**
+ * Local-time day helpers shared by the hook, presets, matchers and calendar systems.
+ */
+
+export function startOfDay(date: Date) {
+  const next = new Date(date);
+  next.setHours(0, 0, 0, 0);
+  return next;
+}
+
+export function addDays(date: Date, amount: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + amount);
+  return next;
+}
+
+/**
+ * Days since the Unix epoch of the local calendar day, stable across DST changes.
+ */
+export function getDayIndex(date: Date) {
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000);
+}
+
+export function getWeekStart(date: Date, weekStartsOn: number) {
+  return addDays(startOfDay(date), -((date.getDay() - weekStartsOn + 7) % 7));
+}
@@ -1,3 +1,10 @@
 export * from './DatePicker';
 export * from './use-date-picker';
 export * from './date-picker.styles';
+export * from './date-format';
+export * from './date-presets';
+export * from './date-matchers';
+export * from './time-zone';
+export * from './calendar-system';
+export * from './translations';
+export * from './time-format';
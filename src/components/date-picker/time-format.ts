@@ -0,0 +1,216 @@
+export type HourCycle = 'h12' | 'h23';
+
+export type TimeUnit = 'hour' | 'minute' | 'second' | 'period';
+
+export interface TimeOption {
+  value: number;
+  label: string;
+  isDisabled: boolean;
+}
+
+/**
+ * Inclusive window of selectable times, in seconds since midnight.
+ */
+export interface TimeBounds {
+  min: number;
+  max: number;
+}
+
+export const FULL_DAY: TimeBounds = { min: 0, max: 86_399 };
+
+/**
+ * Resolves whether a locale writes times with a 12 or 24 hour clock.
+ */
+export function getLocaleHourCycle(locale: string): HourCycle {
+  try {
+    const { hour12 } = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions();
+    return hour12 ? 'h12' : 'h23';
+  } catch {
+    return 'h23';
+  }
+}
+
+/**
+ * Parses `HH:MM` or `HH:MM:SS` into seconds since midnight.
+ */
+export function parseTimeString(time: string | null | undefined): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [hours, minutes, seconds = 0] = match.slice(1).map((part) => Number(part ?? 0));
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+export function formatTimeString(time: number, withSeconds: boolean): string {
+  const parts = [Math.floor(time / 3600), Math.floor(time / 60) % 60];
+  if (withSeconds) parts.push(time % 60);
+  return parts.map((part) => String(part).padStart(2, '0')).join(':');
+}
+
+export function getSecondsOfDay(date: Date): number {
+  return date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+}
+
+export interface TimeOptionsConfig {
+  /** Step between selectable minutes, in minutes. */
+  step: number;
+  withSeconds: boolean;
+  bounds: TimeBounds;
+}
+
+function isOnStep(minuteStart: number, step: number) {
+  return minuteStart % (step * 60) === 0;
+}
+
+// A minute is available when any second inside it (or just its first, without seconds)
+// falls within the bounds.
+function isMinuteAvailable(minuteStart: number, config: TimeOptionsConfig) {
+  const last = config.withSeconds ? minuteStart + 59 : minuteStart;
+  return (
+    isOnStep(minuteStart, config.step) &&
+    last >= config.bounds.min &&
+    minuteStart <= config.bounds.max
+  );
+}
+
+function isHourAvailable(hour: number, config: TimeOptionsConfig) {
+  for (let minute = 0; minute < 60; minute++) {
+    if (isMinuteAvailable(hour * 3600 + minute * 60, config)) return true;
+  }
+  return false;
+}
+
+/**
+ * Moves `time` onto the minute step and inside the bounds.
+ */
+export function snapTime(time: number, config: TimeOptionsConfig): number {
+  const stepSeconds = config.step * 60;
+  const { min, max } = config.bounds;
+  const seconds = config.withSeconds ? time % 60 : 0;
+  let next = Math.floor((time - (time % 60)) / stepSeconds) * stepSeconds + seconds;
+  if (next < min) {
+    const base = Math.ceil((min - (min % 60)) / stepSeconds) * stepSeconds;
+    next = Math.max(base, config.withSeconds ? min : base);
+    if (next < min) next = base + stepSeconds;
+  }
+  if (next > max) {
+    const base = Math.floor((max - (max % 60)) / stepSeconds) * stepSeconds;
+    next = config.withSeconds ? Math.min(max, base + seconds) : base;
+  }
+  return next;
+}
+
+/**
+ * Replaces one unit of `time` with an option value, keeping the other units.
+ */
+export function setTimeUnit(
+  time: number | null,
+  unit: TimeUnit,
+  value: number,
+  hourCycle: HourCycle,
+): number {
+  const current = time ?? 0;
+  const hours = Math.floor(current / 3600);
+  const minutes = Math.floor(current / 60) % 60;
+  const seconds = current % 60;
+  switch (unit) {
+    case 'hour': {
+      const nextHours = hourCycle === 'h12' ? (value % 12) + (hours >= 12 ? 12 : 0) : value;
+      return nextHours * 3600 + minutes * 60 + seconds;
+    }
+    case 'minute':
+      return hours * 3600 + value * 60 + seconds;
+    case 'second':
+      return hours * 3600 + minutes * 60 + value;
+    case 'period':
+      return ((hours % 12) + value * 12) * 3600 + minutes * 60 + seconds;
+  }
+}
+
+/**
+ * Reads the option value `unit` takes for `time`.
+ */
+export function getTimeUnitValue(time: number, unit: TimeUnit, hourCycle: HourCycle): number {
+  const hours = Math.floor(time / 3600);
+  switch (unit) {
+    case 'hour':
+      return hourCycle === 'h12' ? hours % 12 || 12 : hours;
+    case 'minute':
+      return Math.floor(time / 60) % 60;
+    case 'second':
+      return time % 60;
+    case 'period':
+      return hours >= 12 ? 1 : 0;
+  }
+}
+
+/**
+ * Lists the options of one time unit, disabling those that cannot produce a time within
+ * the bounds given the other units of `time`.
+ */
+export function getTimeUnitOptions(
+  unit: TimeUnit,
+  time: number | null,
+  config: TimeOptionsConfig & { hourCycle: HourCycle; locale: string },
+): TimeOption[] {
+  const current = time ?? 0;
+  const hours = Math.floor(current / 3600);
+  const minuteStart = current - (current % 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  switch (unit) {
+    case 'hour': {
+      if (config.hourCycle === 'h23') {
+        return Array.from({ length: 24 }, (_, hour) => ({
+          value: hour,
+          label: pad(hour),
+          isDisabled: !isHourAvailable(hour, config),
+        }));
+      }
+      const offset = hours >= 12 ? 12 : 0;
+      return [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map((hour) => ({
+        value: hour,
+        label: String(hour),
+        isDisabled: !isHourAvailable((hour % 12) + offset, config),
+      }));
+    }
+    case 'minute': {
+      const options: TimeOption[] = [];
+      for (let minute = 0; minute < 60; minute++) {
+        const start = hours * 3600 + minute * 60;
+        if (!isOnStep(start, config.step)) continue;
+        options.push({
+          value: minute,
+          label: pad(minute),
+          isDisabled: !isMinuteAvailable(start, config),
+        });
+      }
+      return options;
+    }
+    case 'second':
+      return Array.from({ length: 60 }, (_, second) => ({
+        value: second,
+        label: pad(second),
+        isDisabled:
+          minuteStart + second < config.bounds.min || minuteStart + second > config.bounds.max,
+      }));
+    case 'period': {
+      const formatter = new Intl.DateTimeFormat(config.locale, {
+        hour: 'numeric',
+        hourCycle: 'h12',
+      });
+      return [0, 1].map((period) => {
+        const label =
+          formatter
+            .formatToParts(new Date(2000, 0, 1, period * 12))
+            .find((part) => part.type === 'dayPeriod')?.value ?? (period ? 'PM' : 'AM');
+        const halfDay = Array.from({ length: 12 }, (_, hour) => hour + period * 12);
+        return {
+          value: period,
+          label,
+          isDisabled: !halfDay.some((hour) => isHourAvailable(hour, config)),
+        };
+      });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+const DAY_MS = 86_400_000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string) {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedFields(date: Date, timeZone: string) {
+  const fields: Record<string, number> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year,
+    month: fields.month - 1,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds.
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedFields(date, timeZone);
+  const wall = new Date(Date.UTC(year, month, day, hour, minute, second));
+  wall.setUTCFullYear(year);
+  return wall.getTime() - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Returns a local `Date` whose calendar fields match the wall clock of `date` in `timeZone`.
+ * The picker works on these wall-clock dates internally.
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  const { year, month, day, hour, minute, second } = getZonedFields(date, timeZone);
+  const zoned = new Date(year, month, day, hour, minute, second, date.getMilliseconds());
+  zoned.setFullYear(year);
+  return zoned;
+}
+
+/**
+ * Reads the local calendar fields of `date` as a wall-clock time in `timeZone` and returns
+ * the matching instant. Times skipped by a DST gap move forward by the gap; repeated times
+ * resolve to their first occurrence.
+ */
+export function fromZonedTime(date: Date, timeZone: string): Date {
+  const wall = new Date(
+    Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getMilliseconds(),
+    ),
+  );
+  wall.setUTCFullYear(date.getFullYear());
+  const utc = wall.getTime();
+
+  // Offsets a day either side bracket any single transition near the wall time.
+  const earlier = utc - getTimeZoneOffset(new Date(utc - DAY_MS), timeZone);
+  const later = utc - getTimeZoneOffset(new Date(utc + DAY_MS), timeZone);
+  const isValid = (instant: number) =>
+    getTimeZoneOffset(new Date(instant), timeZone) === utc - instant;
+
+  const candidates = [earlier, later].filter(isValid);
+  if (candidates.length === 0) return new Date(earlier);
+  return new Date(Math.min(...candidates));
+}
+
+/**
+ * Current wall-clock time in `timeZone`, or the local time when no zone is given.
+ */
+export function getZonedNow(timeZone?: string): Date {
+  const now = new Date();
+  return timeZone ? toZonedTime(now, timeZone) : now;
+}
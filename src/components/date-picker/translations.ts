@@ -0,0 +1,431 @@
+/**
+ * A translated string. Strings interpolate `{name}` placeholders; functions receive the
+ * same values and can handle plural forms.
+ */
+export type DatePickerMessage = string | ((values: Record<string, string | number>) => string);
+
+export interface DatePickerTranslations {
+  placeholder: string;
+  rangePlaceholder: string;
+  multiplePlaceholder: string;
+  weekPlaceholder: string;
+  toggleCalendar: string;
+  previousMonth: string;
+  nextMonth: string;
+  previousYear: string;
+  nextYear: string;
+  previousDecade: string;
+  nextDecade: string;
+  previousCentury: string;
+  nextCentury: string;
+  presets: string;
+  startDate: string;
+  endDate: string;
+  start: string;
+  end: string;
+  time: string;
+  startTime: string;
+  endTime: string;
+  clear: string;
+  done: string;
+  /**
+   * Value text of an unfilled segment.
+   */
+  empty: string;
+  day: string;
+  month: string;
+  year: string;
+  hour: string;
+  minute: string;
+  second: string;
+  period: string;
+  /**
+   * Header of the week number column.
+   */
+  weekNumberColumn: string;
+  /**
+   * Accessible name of a week number cell. Receives `week`.
+   */
+  weekNumber: DatePickerMessage;
+  /**
+   * Input label in `week` mode. Receives `week` and `year`.
+   */
+  weekLabel: DatePickerMessage;
+  /**
+   * Input label when too many dates are selected to list. Receives `count`.
+   */
+  datesSelected: DatePickerMessage;
+  /**
+   * Receives `count`, the minimum range length in nights (days between start and end).
+   */
+  rangeTooShort: DatePickerMessage;
+  /**
+   * Receives `count`, the maximum range length in nights (days between start and end).
+   */
+  rangeTooLong: DatePickerMessage;
+  /**
+   * Receives the formatted `date` that blocks a range.
+   */
+  dateUnavailable: DatePickerMessage;
+  /**
+   * Announced after a selection. Receives the formatted `date`.
+   */
+  selectedDate: DatePickerMessage;
+  /**
+   * Announced after a range selection. Receives the formatted `start` and `end`.
+   */
+  selectedRange: DatePickerMessage;
+  /**
+   * Receives the formatted `minDate` as `date`.
+   */
+  beforeMin: DatePickerMessage;
+  /**
+   * Receives the formatted `maxDate` as `date`.
+   */
+  afterMax: DatePickerMessage;
+  incompleteRange: string;
+  invalidTime: string;
+  parseError: string;
+  /**
+   * Default labels of the `datePresets` factories. `presetLastDays` receives `count`.
+   */
+  presetToday: string;
+  presetYesterday: string;
+  presetLastDays: DatePickerMessage;
+  presetWeekToDate: string;
+  presetPreviousWeek: string;
+  presetMonthToDate: string;
+  presetPreviousMonth: string;
+  presetQuarterToDate: string;
+  presetYearToDate: string;
+}
+
+const en: DatePickerTranslations = {
+  placeholder: 'Select date',
+  rangePlaceholder: 'Select date range',
+  multiplePlaceholder: 'Select dates',
+  weekPlaceholder: 'Select week',
+  toggleCalendar: 'Toggle calendar',
+  previousMonth: 'Go to previous month',
+  nextMonth: 'Go to next month',
+  previousYear: 'Go to previous year',
+  nextYear: 'Go to next year',
+  previousDecade: 'Go to previous decade',
+  nextDecade: 'Go to next decade',
+  previousCentury: 'Go to previous century',
+  nextCentury: 'Go to next century',
+  presets: 'Presets',
+  startDate: 'Start date',
+  endDate: 'End date',
+  start: 'Start',
+  end: 'End',
+  time: 'Time',
+  startTime: 'Start time',
+  endTime: 'End time',
+  clear: 'Clear',
+  done: 'Done',
+  empty: 'Empty',
+  day: 'Day',
+  month: 'Month',
+  year: 'Year',
+  hour: 'Hour',
+  minute: 'Minute',
+  second: 'Second',
+  period: 'AM/PM',
+  weekNumberColumn: 'Wk',
+  weekNumber: 'Week {week}',
+  weekLabel: 'Week {week}, {year}',
+  datesSelected: '{count} dates selected',
+  rangeTooShort: ({ count }) => `Select at least ${count} ${count === 1 ? 'night' : 'nights'}`,
+  rangeTooLong: ({ count }) => `Select at most ${count} ${count === 1 ? 'night' : 'nights'}`,
+  dateUnavailable: '{date} is unavailable',
+  selectedDate: 'Selected {date}',
+  selectedRange: 'Selected {start} to {end}',
+  beforeMin: 'Choose a date on or after {date}',
+  afterMax: 'Choose a date on or before {date}',
+  incompleteRange: 'Select an end date',
+  invalidTime: 'End time must be after the start time',
+  parseError: 'Enter a valid date',
+  presetToday: 'Today',
+  presetYesterday: 'Yesterday',
+  presetLastDays: ({ count }) => (count === 1 ? 'Last day' : `Last ${count} days`),
+  presetWeekToDate: 'This week',
+  presetPreviousWeek: 'Last week',
+  presetMonthToDate: 'Month to date',
+  presetPreviousMonth: 'Last month',
+  presetQuarterToDate: 'Quarter to date',
+  presetYearToDate: 'Year to date',
+};
+
+const de: DatePickerTranslations = {
+  placeholder: 'Datum auswählen',
+  rangePlaceholder: 'Zeitraum auswählen',
+  multiplePlaceholder: 'Daten auswählen',
+  weekPlaceholder: 'Woche auswählen',
+  toggleCalendar: 'Kalender ein-/ausblenden',
+  previousMonth: 'Vorheriger Monat',
+  nextMonth: 'Nächster Monat',
+  previousYear: 'Vorheriges Jahr',
+  nextYear: 'Nächstes Jahr',
+  previousDecade: 'Vorheriges Jahrzehnt',
+  nextDecade: 'Nächstes Jahrzehnt',
+  previousCentury: 'Vorheriges Jahrhundert',
+  nextCentury: 'Nächstes Jahrhundert',
+  presets: 'Schnellauswahl',
+  startDate: 'Startdatum',
+  endDate: 'Enddatum',
+  start: 'Beginn',
+  end: 'Ende',
+  time: 'Uhrzeit',
+  startTime: 'Startzeit',
+  endTime: 'Endzeit',
+  clear: 'Zurücksetzen',
+  done: 'Fertig',
+  empty: 'Leer',
+  day: 'Tag',
+  month: 'Monat',
+  year: 'Jahr',
+  hour: 'Stunde',
+  minute: 'Minute',
+  second: 'Sekunde',
+  period: 'AM/PM',
+  weekNumberColumn: 'KW',
+  weekNumber: 'Kalenderwoche {week}',
+  weekLabel: 'KW {week}, {year}',
+  datesSelected: '{count} Daten ausgewählt',
+  rangeTooShort: ({ count }) => `Mindestens ${count} ${count === 1 ? 'Nacht' : 'Nächte'} auswählen`,
+  rangeTooLong: ({ count }) => `Höchstens ${count} ${count === 1 ? 'Nacht' : 'Nächte'} auswählen`,
+  dateUnavailable: '{date} ist nicht verfügbar',
+  selectedDate: '{date} ausgewählt',
+  selectedRange: '{start} bis {end} ausgewählt',
+  beforeMin: 'Wählen Sie ein Datum ab dem {date}',
+  afterMax: 'Wählen Sie ein Datum bis zum {date}',
+  incompleteRange: 'Enddatum auswählen',
+  invalidTime: 'Die Endzeit muss nach der Startzeit liegen',
+  parseError: 'Geben Sie ein gültiges Datum ein',
+  presetToday: 'Heute',
+  presetYesterday: 'Gestern',
+  presetLastDays: ({ count }) => (count === 1 ? 'Letzter Tag' : `Letzte ${count} Tage`),
+  presetWeekToDate: 'Diese Woche',
+  presetPreviousWeek: 'Letzte Woche',
+  presetMonthToDate: 'Monat bis heute',
+  presetPreviousMonth: 'Letzter Monat',
+  presetQuarterToDate: 'Quartal bis heute',
+  presetYearToDate: 'Jahr bis heute',
+};
+
+const fr: DatePickerTranslations = {
+  placeholder: 'Sélectionner une date',
+  rangePlaceholder: 'Sélectionner une période',
+  multiplePlaceholder: 'Sélectionner des dates',
+  weekPlaceholder: 'Sélectionner une semaine',
+  toggleCalendar: 'Afficher ou masquer le calendrier',
+  previousMonth: 'Mois précédent',
+  nextMonth: 'Mois suivant',
+  previousYear: 'Année précédente',
+  nextYear: 'Année suivante',
+  previousDecade: 'Décennie précédente',
+  nextDecade: 'Décennie suivante',
+  previousCentury: 'Siècle précédent',
+  nextCentury: 'Siècle suivant',
+  presets: 'Raccourcis',
+  startDate: 'Date de début',
+  endDate: 'Date de fin',
+  start: 'Début',
+  end: 'Fin',
+  time: 'Heure',
+  startTime: 'Heure de début',
+  endTime: 'Heure de fin',
+  clear: 'Effacer',
+  done: 'Terminé',
+  empty: 'Vide',
+  day: 'Jour',
+  month: 'Mois',
+  year: 'Année',
+  hour: 'Heure',
+  minute: 'Minute',
+  second: 'Seconde',
+  period: 'AM/PM',
+  weekNumberColumn: 'Sem.',
+  weekNumber: 'Semaine {week}',
+  weekLabel: 'Semaine {week}, {year}',
+  datesSelected: '{count} dates sélectionnées',
+  rangeTooShort: ({ count }) =>
+    `Sélectionnez au moins ${count} ${Number(count) > 1 ? 'nuits' : 'nuit'}`,
+  rangeTooLong: ({ count }) =>
+    `Sélectionnez au plus ${count} ${Number(count) > 1 ? 'nuits' : 'nuit'}`,
+  dateUnavailable: 'Le {date} n’est pas disponible',
+  selectedDate: 'Sélection : {date}',
+  selectedRange: 'Sélection : du {start} au {end}',
+  beforeMin: 'Choisissez une date à partir du {date}',
+  afterMax: 'Choisissez une date jusqu’au {date}',
+  incompleteRange: 'Sélectionnez une date de fin',
+  invalidTime: 'L’heure de fin doit être postérieure à l’heure de début',
+  parseError: 'Saisissez une date valide',
+  presetToday: 'Aujourd’hui',
+  presetYesterday: 'Hier',
+  presetLastDays: ({ count }) => (Number(count) > 1 ? `${count} derniers jours` : 'Dernier jour'),
+  presetWeekToDate: 'Cette semaine',
+  presetPreviousWeek: 'La semaine dernière',
+  presetMonthToDate: 'Mois en cours',
+  presetPreviousMonth: 'Le mois dernier',
+  presetQuarterToDate: 'Trimestre en cours',
+  presetYearToDate: 'Année en cours',
+};
+
+const es: DatePickerTranslations = {
+  placeholder: 'Seleccionar fecha',
+  rangePlaceholder: 'Seleccionar rango de fechas',
+  multiplePlaceholder: 'Seleccionar fechas',
+  weekPlaceholder: 'Seleccionar semana',
+  toggleCalendar: 'Mostrar u ocultar calendario',
+  previousMonth: 'Mes anterior',
+  nextMonth: 'Mes siguiente',
+  previousYear: 'Año anterior',
+  nextYear: 'Año siguiente',
+  previousDecade: 'Década anterior',
+  nextDecade: 'Década siguiente',
+  previousCentury: 'Siglo anterior',
+  nextCentury: 'Siglo siguiente',
+  presets: 'Atajos',
+  startDate: 'Fecha de inicio',
+  endDate: 'Fecha de fin',
+  start: 'Inicio',
+  end: 'Fin',
+  time: 'Hora',
+  startTime: 'Hora de inicio',
+  endTime: 'Hora de fin',
+  clear: 'Borrar',
+  done: 'Listo',
+  empty: 'Vacío',
+  day: 'Día',
+  month: 'Mes',
+  year: 'Año',
+  hour: 'Hora',
+  minute: 'Minuto',
+  second: 'Segundo',
+  period: 'a. m./p. m.',
+  weekNumberColumn: 'Sem.',
+  weekNumber: 'Semana {week}',
+  weekLabel: 'Semana {week}, {year}',
+  datesSelected: '{count} fechas seleccionadas',
+  rangeTooShort: ({ count }) => `Selecciona al menos ${count} ${count === 1 ? 'noche' : 'noches'}`,
+  rangeTooLong: ({ count }) =>
+    `Selecciona como máximo ${count} ${count === 1 ? 'noche' : 'noches'}`,
+  dateUnavailable: 'El {date} no está disponible',
+  selectedDate: 'Seleccionado: {date}',
+  selectedRange: 'Seleccionado: del {start} al {end}',
+  beforeMin: 'Elige una fecha a partir del {date}',
+  afterMax: 'Elige una fecha hasta el {date}',
+  incompleteRange: 'Selecciona una fecha de fin',
+  invalidTime: 'La hora de fin debe ser posterior a la de inicio',
+  parseError: 'Introduce una fecha válida',
+  presetToday: 'Hoy',
+  presetYesterday: 'Ayer',
+  presetLastDays: ({ count }) => (count === 1 ? 'Último día' : `Últimos ${count} días`),
+  presetWeekToDate: 'Esta semana',
+  presetPreviousWeek: 'La semana pasada',
+  presetMonthToDate: 'Mes hasta hoy',
+  presetPreviousMonth: 'El mes pasado',
+  presetQuarterToDate: 'Trimestre hasta hoy',
+  presetYearToDate: 'Año hasta hoy',
+};
+
+const ar: DatePickerTranslations = {
+  placeholder: 'اختر تاريخًا',
+  rangePlaceholder: 'اختر نطاقًا زمنيًا',
+  multiplePlaceholder: 'اختر تواريخ',
+  weekPlaceholder: 'اختر أسبوعًا',
+  toggleCalendar: 'إظهار التقويم أو إخفاؤه',
+  previousMonth: 'الشهر السابق',
+  nextMonth: 'الشهر التالي',
+  previousYear: 'السنة السابقة',
+  nextYear: 'السنة التالية',
+  previousDecade: 'العقد السابق',
+  nextDecade: 'العقد التالي',
+  previousCentury: 'القرن السابق',
+  nextCentury: 'القرن التالي',
+  presets: 'اختصارات',
+  startDate: 'تاريخ البدء',
+  endDate: 'تاريخ الانتهاء',
+  start: 'البداية',
+  end: 'النهاية',
+  time: 'الوقت',
+  startTime: 'وقت البدء',
+  endTime: 'وقت الانتهاء',
+  clear: 'مسح',
+  done: 'تم',
+  empty: 'فارغ',
+  day: 'اليوم',
+  month: 'الشهر',
+  year: 'السنة',
+  hour: 'الساعة',
+  minute: 'الدقيقة',
+  second: 'الثانية',
+  period: 'ص/م',
+  weekNumberColumn: 'أسبوع',
+  weekNumber: 'الأسبوع {week}',
+  weekLabel: 'الأسبوع {week}، {year}',
+  datesSelected: 'عدد التواريخ المحددة: {count}',
+  rangeTooShort: 'الحد الأدنى لعدد الليالي: {count}',
+  rangeTooLong: 'الحد الأقصى لعدد الليالي: {count}',
+  dateUnavailable: '{date} غير متاح',
+  selectedDate: 'تم تحديد {date}',
+  selectedRange: 'تم تحديد الفترة من {start} إلى {end}',
+  beforeMin: 'اختر تاريخًا في {date} أو بعده',
+  afterMax: 'اختر تاريخًا في {date} أو قبله',
+  incompleteRange: 'اختر تاريخ الانتهاء',
+  invalidTime: 'يجب أن يكون وقت الانتهاء بعد وقت البدء',
+  parseError: 'أدخل تاريخًا صالحًا',
+  presetToday: 'اليوم',
+  presetYesterday: 'أمس',
+  presetLastDays: 'آخر {count} أيام',
+  presetWeekToDate: 'هذا الأسبوع',
+  presetPreviousWeek: 'الأسبوع الماضي',
+  presetMonthToDate: 'الشهر حتى اليوم',
+  presetPreviousMonth: 'الشهر الماضي',
+  presetQuarterToDate: 'الربع حتى اليوم',
+  presetYearToDate: 'السنة حتى اليوم',
+};
+
+/**
+ * Built-in dictionaries keyed by language subtag. Languages without an entry use English.
+ */
+export const DATE_PICKER_TRANSLATIONS: Record<string, DatePickerTranslations> = {
+  en,
+  de,
+  fr,
+  es,
+  ar,
+};
+
+/**
+ * Picks the built-in dictionary for a locale and applies `overrides` on top.
+ */
+export function getTranslations(
+  locale: string,
+  overrides?: Partial<DatePickerTranslations>,
+): DatePickerTranslations {
+  let language = 'en';
+  try {
+    const resolved = new Intl.DateTimeFormat(locale).resolvedOptions().locale;
+    language = new Intl.Locale(resolved).language;
+  } catch {
+    // Unknown locales keep the English dictionary.
+  }
+  const base = DATE_PICKER_TRANSLATIONS[language] ?? en;
+  return overrides ? { ...base, ...overrides } : base;
+}
+
+/**
+ * Resolves a message with its values. Unknown placeholders are left as written.
+ */
+export function formatMessage(
+  message: DatePickerMessage,
+  values: Record<string, string | number> = {},
+): string {
+  if (typeof message === 'function') return message(values);
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match,
+  );
+}
@@ -9,6 +9,36 @@ import React, {
   useRef,
   useState,
 } from 'react';
+import { getCalendarSystem } from './calendar-system';
+import type { CalendarSystem } from './calendar-system';
+import {
+  createDateFormatter,
+  formatDatePattern,
+  getDateSegmentLayout,
+  getLocaleDirection,
+  RANGE_SEPARATOR,
+  splitRangeString,
+} from './date-format';
+import type { DateFormatter, DateSegmentType, TextDirection } from './date-format';
+import { mapDateMatcher, matchDate } from './date-matchers';
+import type { DateMatcher } from './date-matchers';
+import type { DatePickerPreset } from './date-presets';
+import { getDayIndex, getWeekStart, startOfDay } from './date-utils';
+import {
+  formatTimeString,
+  FULL_DAY,
+  getLocaleHourCycle,
+  getSecondsOfDay,
+  getTimeUnitOptions,
+  getTimeUnitValue,
+  parseTimeString,
+  setTimeUnit,
+  snapTime,
+} from './time-format';
+import type { HourCycle, TimeBounds, TimeOption, TimeUnit } from './time-format';
+import { fromZonedTime, getZonedNow, toZonedTime } from './time-zone';
+import { formatMessage, getTranslations } from './translations';
+import type { DatePickerTranslations } from './translations';
 import { useControllableState } from './use-controllable-state';
 
 export type DatePickerSelection = Date | null;
@@ -18,7 +48,43 @@ export interface DateRangeValue {
   end: Date | null;
 }
 
-export type DatePickerValue = DatePickerSelection | DateRangeValue;
+export type DatePickerValue = DatePickerSelection | DateRangeValue | Date[];
+
+export type DatePickerView = 'day' | 'month' | 'year' | 'decade';
+
+export type DatePickerSelectionMode = 'single' | 'range' | 'multiple' | 'week';
+
+export type DateRangeError =
+  | {
+      reason: 'tooShort' | 'tooLong';
+      /** Nights, i.e. days between the attempted start and end. */
+      length: number;
+      /** The `minRangeLength` or `maxRangeLength` that was violated. */
+      limit: number;
+      message: string;
+    }
+  | {
+      reason: 'unavailable';
+      /** First unavailable day the attempted range would cover. */
+      date: Date;
+      message: string;
+    };
+
+export type DatePickerValidationReason =
+  | 'beforeMin'
+  | 'afterMax'
+  | 'unavailable'
+  | 'incompleteRange'
+  | 'invalidTime'
+  | 'parseError'
+  | 'custom';
+
+export interface DatePickerValidationError {
+  reason: DatePickerValidationReason;
+  /** Offending day for `beforeMin`, `afterMax` and `unavailable`. */
+  date?: Date;
+  message: string;
+}
 
 export interface UseDatePickerProps {
   /**
@@ -29,6 +95,16 @@ export interface UseDatePickerProps {
    * Whether the picker operates in range selection mode.
    */
   isRange?: boolean;
+  /**
+   * Selection behaviour. `multiple` toggles individual days and emits `Date[]`;
+   * `week` snaps to the whole week (per `weekStartsOn`) and emits a `DateRangeValue`.
+   * Takes precedence over `isRange`.
+   */
+  selectionMode?: DatePickerSelectionMode;
+  /**
+   * Maximum number of days that can be picked in `multiple` mode.
+   */
+  maxSelections?: number;
   /**
    * Controlled value for the picker.
    */
@@ -41,6 +117,11 @@ export interface UseDatePickerProps {
    * Callback fired when selection changes.
    */
   onChange?: (value: DatePickerValue) => void;
+  /**
+   * Allows typing or pasting a date into the input. Text is parsed using the
+   * locale's field order and committed on blur or Enter.
+   */
+  isEditable?: boolean;
   /**
    * Called when the popover opens.
    */
@@ -69,18 +150,117 @@ export interface UseDatePickerProps {
    * Locale used for formatting month, weekday and date labels.
    */
   locale?: string;
+  /**
+   * Layout direction. Inferred from `locale` (Arabic, Hebrew, Persian, ...) when omitted; in
+   * `rtl` the horizontal arrow keys move backwards and forwards in visual order.
+   */
+  dir?: TextDirection;
+  /**
+   * Overrides for the labels, placeholders and announcements. Unset keys come from the built-in
+   * dictionary matching `locale`, falling back to English.
+   */
+  translations?: Partial<DatePickerTranslations>;
+  /**
+   * IANA time zone (e.g. `Europe/Paris`) the calendar operates in. Grid days, "today" and
+   * selected times follow that zone's wall clock, and emitted dates are the matching instants.
+   * `isDateUnavailable` receives the instant at which the day starts in the zone.
+   */
+  timeZone?: string;
+  /**
+   * Intl calendar identifier (e.g. `islamic-umalqura`, `persian`, `japanese`, `buddhist`) the
+   * grid, header and input label follow. Values are still plain `Date` objects.
+   */
+  calendar?: string;
+  /**
+   * Input label format: a pattern such as `yyyy-MM-dd HH:mm` or a formatting function.
+   * Patterns are also used to parse typed text.
+   */
+  format?: string | ((date: Date, locale: string) => string);
+  /**
+   * `Intl.DateTimeFormat` options for the input label when `format` is not set.
+   */
+  formatOptions?: Intl.DateTimeFormatOptions;
+  /**
+   * Custom parser for typed input. Return `null` for unparseable text.
+   */
+  parse?: (text: string, locale: string) => Date | null;
+  /**
+   * Text placed between the start and end labels in range mode.
+   */
+  rangeSeparator?: string;
   /**
    * Week day the calendar grid starts on (0 = Sunday, 1 = Monday, ...).
    */
   weekStartsOn?: number;
+  /**
+   * Adds a leading column with each row's week number: ISO-8601 when `weekStartsOn` is Monday,
+   * otherwise counted from the week containing January 1st.
+   */
+  showWeekNumbers?: boolean;
+  /**
+   * Called with the week number and the row's dates when a week number is clicked. In `range`
+   * and `week` modes the click also selects the row's selectable days.
+   */
+  onWeekNumberClick?: (weekNumber: number, dates: Date[]) => void;
   /**
    * Prevents selection of specific dates.
    */
   isDateUnavailable?: (date: Date) => boolean;
+  /**
+   * Declarative alternative to `isDateUnavailable`, e.g. `[{ dayOfWeek: [0, 6] }, holidays]`.
+   * Days matching either are unavailable.
+   */
+  disabled?: DateMatcher;
+  /**
+   * Named day sets such as `{ booked: bookedDates, holiday: holidays }`. Matching days list
+   * the names in `day.modifiers` and get a `data-<name>` attribute from `getDayProps`.
+   */
+  modifiers?: Record<string, DateMatcher>;
   /**
    * Allows selecting the same date for start and end in range mode.
    */
   allowSameDateSelection?: boolean;
+  /**
+   * Minimum number of nights, i.e. days between start and end, in range mode. `2` accepts
+   * Mar 14 – Mar 16 but not Mar 14 – Mar 15.
+   */
+  minRangeLength?: number;
+  /**
+   * Maximum number of nights, i.e. days between start and end, in range mode.
+   */
+  maxRangeLength?: number;
+  /**
+   * Lets a range cover dates rejected by `isDateUnavailable`. When false, ends past the first
+   * unavailable day after (or before) the pending start cannot be selected. Only the year
+   * after (or before) the start is searched for unavailable days.
+   */
+  allowUnavailableInRange?: boolean;
+  /**
+   * Number of consecutive months rendered side by side.
+   */
+  numberOfMonths?: number;
+  /**
+   * Whether previous/next navigation moves by all visible months instead of one.
+   */
+  pagedNavigation?: boolean;
+  /**
+   * Most detailed view the calendar can show. Use `month` or `year` to build
+   * month-only or year-only pickers; selecting a cell in this view commits the value.
+   */
+  minView?: DatePickerView;
+  /**
+   * Least detailed view users can drill out to from the header label.
+   */
+  maxView?: DatePickerView;
+  /**
+   * Called when the calendar switches between day, month, year and decade views.
+   */
+  onViewChange?: (view: DatePickerView) => void;
+  /**
+   * Shortcuts rendered by `DatePicker.Presets`, e.g. "Last 7 days".
+   * See `datePresets` for built-in factories.
+   */
+  presets?: DatePickerPreset[];
   /**
    * Initial visible month when uncontrolled.
    */
@@ -117,6 +297,133 @@ export interface UseDatePickerProps {
    * Notifies consumer when time string changes.
    */
   onTimeChange?: (time: string) => void;
+  /**
+   * Minutes between selectable times (e.g. 15 for quarter hours).
+   */
+  timeStep?: number;
+  /**
+   * Clock of the time field. When set, the default time field renders segments on this
+   * clock instead of the browser's time input. Defaults to the locale's convention.
+   */
+  hourCycle?: HourCycle;
+  /**
+   * Adds seconds to the time field; time strings become `HH:MM:SS`.
+   */
+  showSeconds?: boolean;
+  /**
+   * Earliest selectable time of any day, in `HH:MM` or `HH:MM:SS`.
+   */
+  minTime?: string;
+  /**
+   * Latest selectable time of any day, in `HH:MM` or `HH:MM:SS`.
+   */
+  maxTime?: string;
+  /**
+   * Earliest selectable moment. Bounds the days like `minDate` and, on its day, the times.
+   */
+  minDateTime?: Date;
+  /**
+   * Latest selectable moment. Bounds the days like `maxDate` and, on its day, the times.
+   */
+  maxDateTime?: Date;
+  /**
+   * Controlled start time in `HH:MM` format for range mode.
+   */
+  startTime?: string;
+  /**
+   * Default start time when uncontrolled. Falls back to `defaultTimeValue`.
+   */
+  defaultStartTime?: string;
+  /**
+   * Notifies consumer when the start time changes.
+   */
+  onStartTimeChange?: (time: string) => void;
+  /**
+   * Controlled end time in `HH:MM` format for range mode.
+   */
+  endTime?: string;
+  /**
+   * Default end time when uncontrolled. Falls back to `defaultTimeValue`.
+   */
+  defaultEndTime?: string;
+  /**
+   * Notifies consumer when the end time changes.
+   */
+  onEndTimeChange?: (time: string) => void;
+  /**
+   * Attaches consumer data (prices, event counts, ...) to each grid day. String, number and
+   * boolean entries are also exposed by `getDayProps` as `data-*` attributes.
+   */
+  getDayMeta?: (date: Date) => DatePickerDayMeta | undefined;
+  /**
+   * Loads the unavailable dates of each visible month. Results are cached per month, requests
+   * for months that leave the view are aborted, and days stay disabled until their month loads.
+   */
+  loadAvailability?: (request: DatePickerAvailabilityRequest) => Promise<Date[]>;
+  /**
+   * Renders hidden inputs so the selection is submitted with the surrounding form. Values are
+   * `yyyy-MM-dd` dates, or ISO timestamps with `enableTimeSelection`. Multiple mode repeats the
+   * name once per date.
+   */
+  name?: string;
+  /**
+   * Input name of the range or week start. Defaults to `name[start]`.
+   */
+  startName?: string;
+  /**
+   * Input name of the range or week end. Defaults to `name[end]`.
+   */
+  endName?: string;
+  /**
+   * Marks the hidden inputs as required, so native form validation rejects an empty or
+   * incomplete selection.
+   */
+  required?: boolean;
+  /**
+   * Id of the form the hidden inputs belong to, when the picker is rendered outside of it.
+   */
+  form?: string;
+  /**
+   * Marks the picker invalid regardless of `validationError`.
+   */
+  isInvalid?: boolean;
+  /**
+   * Custom check run after the built-in ones. Returns an error message, or null when the
+   * value is valid.
+   */
+  validate?: (value: DatePickerValue | null) => string | null;
+  /**
+   * Disables the input, trigger and hidden inputs and keeps the calendar closed.
+   */
+  isDisabled?: boolean;
+  /**
+   * Id of the text input, e.g. to match an external label's `htmlFor`. Defaults to
+   * `${id}-input`.
+   */
+  inputId?: string;
+  /**
+   * Ids of the helper or error texts describing the input.
+   */
+  ariaDescribedBy?: string;
+}
+
+export interface DatePickerFormField {
+  name: string;
+  value: string;
+}
+
+export type DatePickerDayMeta = Record<string, unknown>;
+
+export interface DatePickerAvailabilityRequest {
+  /**
+   * First day of the month grid, outside days included.
+   */
+  start: Date;
+  /**
+   * Last day of the month grid.
+   */
+  end: Date;
+  signal: AbortSignal;
 }
 
 export interface CalendarDay {
@@ -125,23 +432,159 @@ export interface CalendarDay {
   isToday: boolean;
   isCurrentMonth: boolean;
   isDisabled: boolean;
+  meta?: DatePickerDayMeta;
+  modifiers?: string[];
+}
+
+/**
+ * Selection state of a grid day, as reflected by the `data-*` attributes of `getDayProps`.
+ */
+export interface DatePickerDayState {
+  isSelected: boolean;
+  isInRange: boolean;
+  isInPreview: boolean;
+  isRangeStart: boolean;
+  isRangeEnd: boolean;
+  isWeekHovered: boolean;
+  isToday: boolean;
+  isOutside: boolean;
+  isDisabled: boolean;
+}
+
+/**
+ * One grid row. Still an array of days, with the row's week number attached.
+ */
+export type CalendarWeek = CalendarDay[] & { weekNumber: number };
+
+export interface CalendarMonth {
+  year: number;
+  month: number;
+  /**
+   * First day of the month.
+   */
+  date: Date;
+  weeks: CalendarWeek[];
+}
+
+export interface CalendarCell {
+  /**
+   * First day of the month, year or decade the cell represents.
+   */
+  date: Date;
+  view: Exclude<DatePickerView, 'day'>;
+  label: string;
+  isSelected: boolean;
+  isDisabled: boolean;
+  isCurrent: boolean;
+  isOutside: boolean;
+}
+
+export type DateSegmentEndpoint = 'start' | 'end';
+
+export interface DateSegment {
+  type: DateSegmentType | 'literal';
+  endpoint: DateSegmentEndpoint;
+  text: string;
+  value: number | null;
+  minValue: number;
+  maxValue: number;
+  isPlaceholder: boolean;
+}
+
+export interface TimeSegment {
+  unit: TimeUnit;
+  endpoint: DateSegmentEndpoint;
+  text: string;
+  value: number | null;
+  isPlaceholder: boolean;
 }
 
 export interface UseDatePickerReturn {
   isOpen: boolean;
   isRange: boolean;
+  selectionMode: DatePickerSelectionMode;
+  isEditable: boolean;
   value: DatePickerValue;
   time: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  /**
+   * True when a same-day range has an end time before its start time.
+   */
+  isTimeRangeInvalid: boolean;
   enableTimeSelection: boolean;
+  hourCycle: HourCycle;
+  /**
+   * True when `hourCycle` is passed. The default time field then renders segments on that
+   * clock instead of the browser's time input.
+   */
+  isHourCycleSet: boolean;
+  showSeconds: boolean;
+  /**
+   * Units the time segments and picker columns render, in order.
+   */
+  timeUnits: TimeUnit[];
   locale: string;
+  dir: TextDirection;
+  /**
+   * Resolved strings for the active locale, including `translations` overrides.
+   */
+  translations: DatePickerTranslations;
+  /**
+   * Polite announcement describing the current selection.
+   */
+  announcement: string;
+  rangeSeparator: string;
+  formatDate: (date: Date) => string;
   minDate?: Date | null;
   maxDate?: Date | null;
   weekStartsOn: number;
+  /**
+   * Calendar the labels follow, when one was set.
+   */
+  calendar?: string;
+  /**
+   * Zero-based month and year of the first visible month, in the active calendar.
+   */
   viewMonth: number;
   viewYear: number;
+  /**
+   * Long month names of the visible year, in the active calendar.
+   */
+  monthNames: string[];
+  /**
+   * Formats a year of the active calendar, e.g. `1445 AH`.
+   */
+  getYearLabel: (year: number) => string;
   focusedDate: Date;
   weekDays: string[];
-  weeks: CalendarDay[][];
+  weeks: CalendarWeek[];
+  months: CalendarMonth[];
+  showWeekNumbers: boolean;
+  /**
+   * True while `loadAvailability` has a visible month in flight.
+   */
+  isLoading: boolean;
+  /**
+   * Drops the cached availability and loads the visible months again.
+   */
+  reloadAvailability: () => void;
+  numberOfMonths: number;
+  view: DatePickerView;
+  minView: DatePickerView;
+  maxView: DatePickerView;
+  viewCells: CalendarCell[];
+  presets: DatePickerPreset[];
+  isPresetActive: (preset: DatePickerPreset) => boolean;
+  /**
+   * True when a preset lies entirely before `minDate` or after `maxDate`.
+   */
+  isPresetDisabled: (preset: DatePickerPreset) => boolean;
+  /**
+   * Text of a preset, resolving translated labels.
+   */
+  getPresetLabel: (preset: DatePickerPreset) => string;
+  applyPreset: (preset: DatePickerPreset) => void;
   triggerRef: React.RefObject<HTMLElement>;
   contentRef: React.RefObject<HTMLElement>;
   inputRef: React.RefObject<HTMLInputElement>;
@@ -149,27 +592,78 @@ export interface UseDatePickerReturn {
   hasSelectedDate: boolean;
   isDateSelected: (date: Date) => boolean;
   isInRange: (date: Date) => boolean;
+  isInPreview: (date: Date) => boolean;
+  /**
+   * Last range rejected by the length or availability constraints; cleared on the next change.
+   */
+  rangeError: DateRangeError | null;
+  /**
+   * Checks the range the pending start would form with `date` as its end.
+   */
+  getRangeError: (date: Date) => DateRangeError | null;
   open: () => void;
   close: () => void;
   toggle: () => void;
   selectDate: (date: Date) => void;
+  commitInputValue: (text: string) => boolean;
   clear: () => void;
   gotoPreviousMonth: () => void;
   gotoNextMonth: () => void;
   gotoMonth: (month: number) => void;
   gotoYear: (year: number) => void;
+  gotoView: (view: DatePickerView) => void;
+  /**
+   * First problem with the current value or the last typed text, in the order: typed text,
+   * selected days, incomplete range, time range, `validate`. Incomplete ranges are reported
+   * once the calendar closes.
+   */
+  validationError: DatePickerValidationError | null;
+  isInvalid: boolean;
+  isDisabled: boolean;
+  /**
+   * Restores `defaultValue` and the default times. Runs on the form's `reset` event.
+   */
+  reset: () => void;
+  /**
+   * Name/value pairs submitted by the hidden inputs; empty without `name`.
+   */
+  formFields: DatePickerFormField[];
   getRootProps: () => Record<string, unknown>;
+  getHiddenInputProps: (field: DatePickerFormField) => Record<string, unknown>;
+  getLiveRegionProps: () => Record<string, unknown>;
   getControlProps: () => Record<string, unknown>;
   getInputProps: () => Record<string, unknown>;
   getTriggerProps: () => Record<string, unknown>;
   getContentProps: () => Record<string, unknown>;
-  getCalendarGridProps: () => Record<string, unknown>;
+  getCalendarGridProps: (monthIndex?: number) => Record<string, unknown>;
+  getMonthCaptionProps: (monthIndex: number) => Record<string, unknown>;
   getDayProps: (day: CalendarDay) => Record<string, unknown>;
+  getDayState: (day: CalendarDay) => DatePickerDayState;
+  getWeekNumberProps: (week: CalendarWeek) => Record<string, unknown>;
+  selectWeek: (week: CalendarWeek) => void;
   getPrevTriggerProps: () => Record<string, unknown>;
   getNextTriggerProps: () => Record<string, unknown>;
+  getViewTriggerProps: () => Record<string, unknown>;
+  getViewGridProps: () => Record<string, unknown>;
+  getViewCellProps: (cell: CalendarCell) => Record<string, unknown>;
+  getPresetGroupProps: () => Record<string, unknown>;
+  getPresetProps: (preset: DatePickerPreset) => Record<string, unknown>;
   getMonthSelectProps: () => Record<string, unknown>;
   getYearSelectProps: () => Record<string, unknown>;
-  getTimeInputProps: () => Record<string, unknown>;
+  getTimeInputProps: (endpoint?: DateSegmentEndpoint) => Record<string, unknown>;
+  getTimeOptions: (unit: TimeUnit, endpoint?: DateSegmentEndpoint) => TimeOption[];
+  getTimeColumnProps: (unit: TimeUnit, endpoint?: DateSegmentEndpoint) => Record<string, unknown>;
+  getTimeOptionProps: (
+    unit: TimeUnit,
+    option: TimeOption,
+    endpoint?: DateSegmentEndpoint,
+  ) => Record<string, unknown>;
+  getTimeSegments: (endpoint?: DateSegmentEndpoint) => TimeSegment[];
+  getTimeSegmentGroupProps: (endpoint?: DateSegmentEndpoint) => Record<string, unknown>;
+  getTimeSegmentProps: (segment: TimeSegment) => Record<string, unknown>;
+  getSegments: (endpoint?: DateSegmentEndpoint) => DateSegment[];
+  getSegmentGroupProps: (endpoint?: DateSegmentEndpoint) => Record<string, unknown>;
+  getSegmentProps: (segment: DateSegment) => Record<string, unknown>;
   placement: string;
   gutter: number;
 }
@@ -178,11 +672,12 @@ function isDateRange(value: DatePickerValue | undefined): value is DateRangeValu
   return !!value && typeof value === 'object' && 'start' in value && 'end' in value;
 }
 
+function isDateList(value: DatePickerValue | undefined): value is Date[] {
+  return Array.isArray(value);
+}
+
 function normalizeDate(value: Date | null): Date | null {
-  if (!value) return null;
-  const next = new Date(value);
-  next.setHours(0, 0, 0, 0);
-  return next;
+  return value ? startOfDay(value) : null;
 }
 
 function clampDate(date: Date, min?: Date, max?: Date) {
@@ -236,10 +731,243 @@ function compareDay(a: Date, b: Date) {
   );
 }
 
-function addMonths(date: Date, amount: number) {
-  const next = new Date(date);
-  next.setMonth(next.getMonth() + amount);
-  return next;
+function getWeekRange(date: Date, weekStartsOn: number): { start: Date; end: Date } {
+  const start = getWeekStart(date, weekStartsOn);
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  return { start, end };
+}
+
+/**
+ * ISO-8601 numbering when weeks start on Monday; otherwise week 1 is the week containing
+ * January 1st.
+ */
+function getWeekNumber(date: Date, weekStartsOn: number): { week: number; year: number } {
+  if (weekStartsOn === 1) {
+    const thursday = normalizeDate(date) ?? new Date(date);
+    thursday.setDate(thursday.getDate() + 3 - ((thursday.getDay() + 6) % 7));
+    const firstOfYear = new Date(thursday.getFullYear(), 0, 1);
+    return {
+      week: Math.floor((getDayIndex(thursday) - getDayIndex(firstOfYear)) / 7) + 1,
+      year: thursday.getFullYear(),
+    };
+  }
+
+  const { start, end } = getWeekRange(date, weekStartsOn);
+  if (end.getFullYear() !== start.getFullYear()) {
+    return { week: 1, year: end.getFullYear() };
+  }
+  const firstWeekStart = getWeekStart(new Date(start.getFullYear(), 0, 1), weekStartsOn);
+  return {
+    week: Math.round((getDayIndex(start) - getDayIndex(firstWeekStart)) / 7) + 1,
+    year: start.getFullYear(),
+  };
+}
+
+const VIEW_ORDER: DatePickerView[] = ['day', 'month', 'year', 'decade'];
+
+/**
+ * Number of months a single cell spans in each drill-down view.
+ */
+const VIEW_UNIT_MONTHS: Record<Exclude<DatePickerView, 'day'>, number> = {
+  month: 1,
+  year: 12,
+  decade: 120,
+};
+
+type TranslationKey = keyof DatePickerTranslations;
+
+const NAVIGATION_LABELS: Record<DatePickerView, [TranslationKey, TranslationKey]> = {
+  day: ['previousMonth', 'nextMonth'],
+  month: ['previousYear', 'nextYear'],
+  year: ['previousDecade', 'nextDecade'],
+  decade: ['previousCentury', 'nextCentury'],
+};
+
+function getViewIndex(view: DatePickerView) {
+  return VIEW_ORDER.indexOf(view);
+}
+
+function getCellStart(
+  date: Date,
+  view: Exclude<DatePickerView, 'day'>,
+  calendarSystem: CalendarSystem,
+) {
+  const { year, month } = calendarSystem.getFields(date);
+  if (view === 'month') return calendarSystem.fromFields({ year, month, day: 1 });
+  if (view === 'year') return calendarSystem.fromFields({ year, month: 0, day: 1 });
+  return calendarSystem.fromFields({ year: Math.floor(year / 10) * 10, month: 0, day: 1 });
+}
+
+// Without an explicit calendar, years keep their plain Gregorian numbers whatever the locale.
+function createYearFormatter(locale: string, calendar?: string) {
+  if (!calendar) return (date: Date) => String(date.getFullYear());
+  const formatter = new Intl.DateTimeFormat(locale, { year: 'numeric', calendar });
+  return (date: Date) => formatter.format(date);
+}
+
+function getViewCells(
+  viewDate: Date,
+  view: Exclude<DatePickerView, 'day'>,
+  options: {
+    locale: string;
+    minDate?: Date;
+    maxDate?: Date;
+    selectedDates: Date[];
+    today: Date;
+    calendar?: string;
+    calendarSystem: CalendarSystem;
+  },
+): CalendarCell[] {
+  const { locale, minDate, maxDate, selectedDates, calendar, calendarSystem } = options;
+  const { year } = calendarSystem.getFields(viewDate);
+  const unit = VIEW_UNIT_MONTHS[view];
+  let firstYear: number;
+  if (view === 'month') {
+    firstYear = year;
+  } else if (view === 'year') {
+    firstYear = Math.floor(year / 10) * 10 - 1;
+  } else {
+    firstYear = Math.floor(year / 100) * 100 - 10;
+  }
+  const first = calendarSystem.fromFields({ year: firstYear, month: 0, day: 1 });
+  const monthFormatter = new Intl.DateTimeFormat(locale, { month: 'short', calendar });
+  const formatYear = createYearFormatter(locale, calendar);
+  const today = getCellStart(options.today, view, calendarSystem);
+
+  return Array.from({ length: 12 }).map((_, index) => {
+    const date = calendarSystem.addMonths(first, index * unit);
+    const last = calendarSystem.addMonths(date, unit);
+    last.setDate(last.getDate() - 1);
+    let label: string;
+    if (view === 'month') {
+      label = monthFormatter.format(date);
+    } else if (view === 'year') {
+      label = formatYear(date);
+    } else {
+      label = `${formatYear(date)} – ${formatYear(calendarSystem.addMonths(date, 108))}`;
+    }
+    return {
+      date,
+      view,
+      label,
+      isSelected: selectedDates.some(
+        (selected) => compareDay(date, selected) <= 0 && compareDay(selected, last) <= 0,
+      ),
+      isDisabled:
+        (!!minDate && compareDay(last, minDate) < 0) ||
+        (!!maxDate && compareDay(date, maxDate) > 0),
+      isCurrent: areSameDay(date, today),
+      isOutside: view !== 'month' && (index === 0 || index === 11),
+    };
+  });
+}
+
+function getSelectedDates(value: DatePickerValue | null): Date[] {
+  if (!value) return [];
+  if (isDateList(value)) return value;
+  if (isDateRange(value)) return [value.start, value.end].filter((date): date is Date => !!date);
+  return [value as Date];
+}
+
+function isSameValue(a: DatePickerValue | null, b: DatePickerValue | null) {
+  if (!a || !b) return !a && !b;
+  if (isDateList(a) || isDateList(b)) {
+    if (!isDateList(a) || !isDateList(b) || a.length !== b.length) return false;
+    return a.every((date, index) => areSameDay(date, b[index]));
+  }
+  if (isDateRange(a) || isDateRange(b)) {
+    if (!isDateRange(a) || !isDateRange(b)) return false;
+    const sameStart = areSameDay(a.start, b.start) || (!a.start && !b.start);
+    const sameEnd = areSameDay(a.end, b.end) || (!a.end && !b.end);
+    return sameStart && sameEnd;
+  }
+  return areSameDay(a as Date, b as Date);
+}
+
+function getMonthOffset(from: Date, to: Date, calendarSystem: CalendarSystem) {
+  const start = calendarSystem.getFields(from);
+  const end = calendarSystem.getFields(to);
+  return (end.year - start.year) * 12 + (end.month - start.month);
+}
+
+function getDayDistance(from: Date, to: Date) {
+  const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end - start) / 86_400_000);
+}
+
+function getRangeLengthError(
+  start: Date,
+  end: Date,
+  limits: { min?: number; max?: number },
+  translations: DatePickerTranslations,
+): DateRangeError | null {
+  const length = Math.abs(getDayDistance(start, end));
+  if (limits.min != null && length < limits.min) {
+    return {
+      reason: 'tooShort',
+      length,
+      limit: limits.min,
+      message: formatMessage(translations.rangeTooShort, { count: limits.min }),
+    };
+  }
+  if (limits.max != null && length > limits.max) {
+    return {
+      reason: 'tooLong',
+      length,
+      limit: limits.max,
+      message: formatMessage(translations.rangeTooLong, { count: limits.max }),
+    };
+  }
+  return null;
+}
+
+// Unavailable days further than this from the range start are not looked for, so long typed
+// ranges stay cheap to check.
+const MAX_RANGE_SCAN_DAYS = 366;
+
+function findUnavailableInRange(
+  start: Date,
+  end: Date,
+  isDateUnavailable: (date: Date) => boolean,
+): Date | null {
+  const step = compareDay(start, end) <= 0 ? 1 : -1;
+  const cursor = normalizeDate(start) ?? new Date(start);
+  // Walk outward from the start so the reported day is the one nearest to it.
+  for (let scanned = 0; scanned < MAX_RANGE_SCAN_DAYS && !areSameDay(cursor, end); scanned++) {
+    cursor.setDate(cursor.getDate() + step);
+    if (isDateUnavailable(cursor)) return new Date(cursor);
+  }
+  return null;
+}
+
+const GRID_WEEKS = 6;
+
+function getGridStart(firstOfMonth: Date, weekStartsOn: number) {
+  const start = new Date(firstOfMonth);
+  start.setDate(firstOfMonth.getDate() - ((firstOfMonth.getDay() - weekStartsOn + 7) % 7));
+  return start;
+}
+
+type MonthAvailability =
+  | { status: 'loading' | 'error' }
+  | { status: 'loaded'; start: number; end: number; unavailable: Set<number> };
+
+// Months overlap through their outside days, so a day counts as loaded once any grid covering
+// it has loaded.
+function getDayAvailability(
+  date: Date,
+  availability: Map<string, MonthAvailability>,
+): 'pending' | 'unavailable' | 'available' {
+  const index = getDayIndex(date);
+  let isCovered = false;
+  for (const entry of availability.values()) {
+    if (entry.status !== 'loaded' || index < entry.start || index > entry.end) continue;
+    if (entry.unavailable.has(index)) return 'unavailable';
+    isCovered = true;
+  }
+  return isCovered ? 'available' : 'pending';
 }
 
 function getMonthDays(
@@ -250,14 +978,28 @@ function getMonthDays(
     minDate?: Date;
     maxDate?: Date;
     isDateUnavailable?: (date: Date) => boolean;
+    isOutsideAllowedRange?: (date: Date) => boolean;
+    getDayMeta?: (date: Date) => DatePickerDayMeta | undefined;
+    modifiers?: Record<string, DateMatcher>;
+    today?: Date;
+    calendarSystem?: CalendarSystem;
   },
-): { weeks: CalendarDay[][]; weekDays: string[] } {
-  const { locale = 'default', weekStartsOn = 0, minDate, maxDate, isDateUnavailable } = options;
-  const firstOfMonth = new Date(viewDate.getFullYear(), viewDate.getMonth(), 1);
-  const startDay = firstOfMonth.getDay();
-  const diff = (startDay - weekStartsOn + 7) % 7;
-  const startGrid = new Date(firstOfMonth);
-  startGrid.setDate(firstOfMonth.getDate() - diff);
+): { weeks: CalendarWeek[]; weekDays: string[] } {
+  const {
+    today = new Date(),
+    locale = 'default',
+    weekStartsOn = 0,
+    minDate,
+    maxDate,
+    isDateUnavailable,
+    isOutsideAllowedRange,
+    getDayMeta,
+    modifiers,
+    calendarSystem = getCalendarSystem(),
+  } = options;
+  const firstOfMonth = calendarSystem.startOfMonth(viewDate);
+  const monthLength = calendarSystem.daysInMonth(firstOfMonth);
+  const startGrid = getGridStart(firstOfMonth, weekStartsOn);
 
   const formatter = new Intl.DateTimeFormat(locale, { weekday: 'short' });
   const normalizedMin = minDate ? normalizeDate(minDate) : null;
@@ -267,55 +1009,149 @@ function getMonthDays(
     return formatter.format(date);
   });
 
-  const weeks: CalendarDay[][] = [];
-  for (let weekIndex = 0; weekIndex < 6; weekIndex++) {
+  const weeks: CalendarWeek[] = [];
+  for (let weekIndex = 0; weekIndex < GRID_WEEKS; weekIndex++) {
     const days: CalendarDay[] = [];
     for (let dayIndex = 0; dayIndex < 7; dayIndex++) {
       const current = new Date(startGrid);
       current.setDate(startGrid.getDate() + weekIndex * 7 + dayIndex);
-      const isCurrentMonth = current.getMonth() === viewDate.getMonth();
-      const isToday = areSameDay(current, new Date());
+      const dayOfMonth = getDayDistance(firstOfMonth, current);
+      const isCurrentMonth = dayOfMonth >= 0 && dayOfMonth < monthLength;
+      const isToday = areSameDay(current, today);
       const isBeforeMin = !!normalizedMin && current < normalizedMin;
       const isAfterMax = !!normalizedMax && current > normalizedMax;
-      const isUnavailable = !!isDateUnavailable?.(current);
+      const isUnavailable = !!isDateUnavailable?.(current) || !!isOutsideAllowedRange?.(current);
       days.push({
         date: current,
-        label: String(current.getDate()),
+        label: String(calendarSystem.getFields(current).day),
         isToday,
         isCurrentMonth,
         isDisabled: isBeforeMin || isAfterMax || isUnavailable,
+        meta: getDayMeta?.(current),
+        modifiers: modifiers
+          ? Object.keys(modifiers).filter((name) => matchDate(current, modifiers[name]))
+          : undefined,
       });
     }
-    weeks.push(days);
+    weeks.push(Object.assign(days, { weekNumber: getWeekNumber(days[0].date, weekStartsOn).week }));
   }
 
   return { weeks, weekDays };
 }
 
-function formatDateLabel(value: DatePickerValue, locale: string) {
-  if (!value) return '';
-  const formatter = new Intl.DateTimeFormat(locale, {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
+const MAX_LISTED_DATES = 3;
 
-  if (isDateRange(value)) {
-    const { start, end } = value;
-    if (!start && !end) return '';
-    if (start && end) return `${formatter.format(start)} – ${formatter.format(end)}`;
-    if (start) return `${formatter.format(start)} –`;
-    if (end) return `– ${formatter.format(end)}`;
-    return '';
+function toDataAttributeName(key: string) {
+  return `data-${key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+function getMetaDataAttributes(meta: DatePickerDayMeta | undefined) {
+  const attributes: Record<string, string> = {};
+  if (!meta) return attributes;
+  for (const [key, entry] of Object.entries(meta)) {
+    if (typeof entry === 'string' || typeof entry === 'number' || typeof entry === 'boolean') {
+      attributes[toDataAttributeName(key)] = String(entry);
+    }
   }
+  return attributes;
+}
 
-  return value ? formatter.format(value as Date) : '';
+function getModifierDataAttributes(modifiers: string[] | undefined) {
+  const attributes: Record<string, string> = {};
+  for (const name of modifiers ?? []) attributes[toDataAttributeName(name)] = 'true';
+  return attributes;
 }
 
-function getInitialViewDate(value: DatePickerValue | undefined, fallback?: Date) {
-  if (value && !isDateRange(value) && value) return value as Date;
-  if (value && isDateRange(value) && value.start) return value.start;
-  return fallback ?? new Date();
+function getPlaceholder(
+  selectionMode: DatePickerSelectionMode,
+  translations: DatePickerTranslations,
+) {
+  switch (selectionMode) {
+    case 'range':
+      return translations.rangePlaceholder;
+    case 'multiple':
+      return translations.multiplePlaceholder;
+    case 'week':
+      return translations.weekPlaceholder;
+    default:
+      return translations.placeholder;
+  }
+}
+
+interface FormatDateLabelOptions {
+  formatter: DateFormatter;
+  separator: string;
+  translations: DatePickerTranslations;
+  /**
+   * When set, ranges are labelled by their week number.
+   */
+  weekStartsOn?: number;
+}
+
+function formatDateLabel(value: DatePickerValue, options: FormatDateLabelOptions) {
+  const { formatter, separator, translations, weekStartsOn } = options;
+  if (!value) return '';
+
+  if (weekStartsOn !== undefined && isDateRange(value) && value.start) {
+    const { week, year } = getWeekNumber(value.start, weekStartsOn);
+    return formatMessage(translations.weekLabel, { week, year });
+  }
+
+  if (isDateList(value)) {
+    if (value.length > MAX_LISTED_DATES) {
+      return formatMessage(translations.datesSelected, { count: value.length });
+    }
+    return value.map((date) => formatter.format(date)).join(', ');
+  }
+
+  if (isDateRange(value)) {
+    const { start, end } = value;
+    if (!start && !end) return '';
+    if (start && end) return `${formatter.format(start)}${separator}${formatter.format(end)}`;
+    if (start) return `${formatter.format(start)}${separator}`.trimEnd();
+    if (end) return `${separator}${formatter.format(end)}`.trimStart();
+    return '';
+  }
+
+  return value ? formatter.format(value as Date) : '';
+}
+
+function getSelectionAnnouncement(value: DatePickerValue, options: FormatDateLabelOptions) {
+  const { formatter, translations, weekStartsOn } = options;
+  if (!value || (isDateList(value) && value.length === 0)) return '';
+  if (isDateRange(value) && weekStartsOn === undefined) {
+    const { start, end } = value;
+    if (start && end) {
+      return formatMessage(translations.selectedRange, {
+        start: formatter.format(start),
+        end: formatter.format(end),
+      });
+    }
+    const endpoint = start ?? end;
+    return endpoint
+      ? formatMessage(translations.selectedDate, { date: formatter.format(endpoint) })
+      : '';
+  }
+  return formatMessage(translations.selectedDate, { date: formatDateLabel(value, options) });
+}
+
+function getInitialViewDate(value: DatePickerValue | undefined, fallback: Date) {
+  if (isDateList(value)) return value[0] ?? fallback;
+  if (value && !isDateRange(value) && value) return value as Date;
+  if (value && isDateRange(value) && value.start) return value.start;
+  return fallback;
+}
+
+function mapValueDates(
+  value: DatePickerValue | undefined,
+  map: (date: Date) => Date,
+): DatePickerValue | undefined {
+  if (!value) return value;
+  if (isDateList(value)) return value.map(map);
+  if (isDateRange(value)) {
+    return { start: value.start && map(value.start), end: value.end && map(value.end) };
+  }
+  return map(value);
 }
 
 const escapeId = (value: string) => {
@@ -343,31 +1179,145 @@ function ensureRangeOrder(range: DateRangeValue | null, allowSame: boolean): Dat
   return { start: end, end: start };
 }
 
-function toTimeString(value: DatePickerValue): string | null {
+function toTimeString(value: DatePickerValue, withSeconds = false): string | null {
   if (!value) return null;
-  const date = isDateRange(value) ? (value.end ?? value.start) : (value as Date | null);
+  let date: Date | null;
+  if (isDateList(value)) {
+    date = value[value.length - 1] ?? null;
+  } else {
+    date = isDateRange(value) ? (value.end ?? value.start) : (value as Date | null);
+  }
   if (!date) return null;
-  const hours = String(date.getHours()).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  return `${hours}:${minutes}`;
+  return formatTimeString(getSecondsOfDay(date), withSeconds);
+}
+
+function applyTimeString(date: Date, time: string | null) {
+  const next = new Date(date);
+  if (!time) return next;
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  next.setHours(hours, minutes, seconds, 0);
+  return next;
+}
+
+function applyRangeTimes(
+  range: DateRangeValue,
+  startTime: string | null,
+  endTime: string | null,
+  apply: (date: Date, time: string | null) => Date = applyTimeString,
+): DateRangeValue {
+  const start = range.start && apply(range.start, startTime);
+  let end = range.end && apply(range.end, endTime);
+  // A same-day range cannot end before it starts.
+  if (start && end && end < start) end = new Date(start);
+  return { start, end };
+}
+
+type SegmentValues = Record<DateSegmentType, number | null>;
+
+const SEGMENT_PLACEHOLDERS: Record<DateSegmentType, string> = {
+  day: 'dd',
+  month: 'mm',
+  year: 'yyyy',
+  hour: 'hh',
+  minute: 'mm',
+  second: 'ss',
+};
+
+function getSegmentValuesFromDate(date: Date | null, time: string | null): SegmentValues {
+  const [hours = null, minutes = null, seconds = 0] = time ? time.split(':').map(Number) : [];
+  return {
+    day: date ? date.getDate() : null,
+    month: date ? date.getMonth() + 1 : null,
+    year: date ? date.getFullYear() : null,
+    hour: date ? date.getHours() : hours,
+    minute: date ? date.getMinutes() : minutes,
+    second: date ? date.getSeconds() : time ? seconds : null,
+  };
+}
+
+function getSegmentLimits(type: DateSegmentType, values: SegmentValues) {
+  switch (type) {
+    case 'day': {
+      const daysInMonth = values.month
+        ? new Date(values.year ?? 2000, values.month, 0).getDate()
+        : 31;
+      return { minValue: 1, maxValue: daysInMonth };
+    }
+    case 'month':
+      return { minValue: 1, maxValue: 12 };
+    case 'year':
+      return { minValue: 1, maxValue: 9999 };
+    case 'hour':
+      return { minValue: 0, maxValue: 23 };
+    case 'minute':
+    case 'second':
+    default:
+      return { minValue: 0, maxValue: 59 };
+  }
 }
 
+function focusSiblingSegment(element: HTMLElement, direction: 1 | -1) {
+  const group = element.closest('[data-part="segment-group"]');
+  if (!group) return;
+  const segments = Array.from(group.querySelectorAll<HTMLElement>('[role="spinbutton"]'));
+  const index = segments.indexOf(element);
+  segments[index + direction]?.focus();
+}
+
+const EMPTY_PRESETS: DatePickerPreset[] = [];
+
 export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
   const {
     id: idProp,
-    isRange = false,
+    isRange: isRangeProp = false,
+    selectionMode: selectionModeProp,
+    maxSelections,
+    isEditable: isEditableProp = false,
     value: valueProp,
-    defaultValue,
+    defaultValue: defaultValueProp,
     onChange,
     closeOnSelect = true,
     openOnFocus = true,
-    minDate,
-    maxDate,
+    minDate: minDateProp,
+    maxDate: maxDateProp,
     locale = 'default',
+    dir: dirProp,
+    translations: translationsProp,
+    timeZone,
+    calendar,
+    format,
+    formatOptions,
+    parse,
+    rangeSeparator = RANGE_SEPARATOR,
     weekStartsOn = 0,
-    isDateUnavailable,
+    isDateUnavailable: isDateUnavailableProp,
+    getDayMeta: getDayMetaProp,
+    disabled: disabledProp,
+    modifiers: modifiersProp,
+    loadAvailability,
+    name,
+    startName,
+    endName,
+    required = false,
+    form,
+    isInvalid: isInvalidProp = false,
+    validate,
+    isDisabled = false,
+    inputId,
+    ariaDescribedBy,
+    showWeekNumbers = false,
+    onWeekNumberClick,
     allowSameDateSelection = true,
-    defaultVisibleDate,
+    minRangeLength,
+    maxRangeLength,
+    allowUnavailableInRange = false,
+    numberOfMonths = 1,
+    pagedNavigation = false,
+    minView = 'day',
+    maxView = 'decade',
+    onViewChange,
+    presets = EMPTY_PRESETS,
+    defaultVisibleDate: defaultVisibleDateProp,
     isOpen: isOpenProp,
     defaultIsOpen,
     onOpen,
@@ -378,48 +1328,291 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
     timeValue: timeProp,
     defaultTimeValue,
     onTimeChange,
+    timeStep = 1,
+    hourCycle: hourCycleProp,
+    showSeconds = false,
+    minTime,
+    maxTime,
+    minDateTime: minDateTimeProp,
+    maxDateTime: maxDateTimeProp,
+    startTime: startTimeProp,
+    defaultStartTime,
+    onStartTimeChange,
+    endTime: endTimeProp,
+    defaultEndTime,
+    onEndTimeChange,
   } = props;
 
+  const selectionMode = selectionModeProp ?? (isRangeProp ? 'range' : 'single');
+  const isRange = selectionMode === 'range';
+  const isMultiple = selectionMode === 'multiple';
+  const isWeek = selectionMode === 'week';
+  // Comma-separated lists clash with localized labels, so typing is limited to single and range.
+  const isEditable = isEditableProp && !isMultiple;
+
+  // With a time zone, dates are handled internally as that zone's wall-clock times and only
+  // converted back to instants when they leave the hook.
+  const getNow = useCallback(() => getZonedNow(timeZone), [timeZone]);
+  const calendarSystem = useMemo(() => getCalendarSystem(calendar), [calendar]);
+  const dir = useMemo(() => dirProp ?? getLocaleDirection(locale), [dirProp, locale]);
+  const translations = useMemo(
+    () => getTranslations(locale, translationsProp),
+    [locale, translationsProp],
+  );
+  // Horizontal arrow keys follow the visual order, so ArrowRight steps backwards in RTL.
+  const inlineStep = dir === 'rtl' ? -1 : 1;
+  const zonedValue = useMemo(
+    () => (timeZone ? mapValueDates(valueProp, (date) => toZonedTime(date, timeZone)) : valueProp),
+    [timeZone, valueProp],
+  );
+  const defaultValue = useMemo(
+    () =>
+      timeZone
+        ? mapValueDates(defaultValueProp, (date) => toZonedTime(date, timeZone))
+        : defaultValueProp,
+    [defaultValueProp, timeZone],
+  );
+  const minDateTime = useMemo(
+    () => (timeZone && minDateTimeProp ? toZonedTime(minDateTimeProp, timeZone) : minDateTimeProp),
+    [minDateTimeProp, timeZone],
+  );
+  const maxDateTime = useMemo(
+    () => (timeZone && maxDateTimeProp ? toZonedTime(maxDateTimeProp, timeZone) : maxDateTimeProp),
+    [maxDateTimeProp, timeZone],
+  );
+  const minDate = useMemo(() => {
+    const date = timeZone && minDateProp ? toZonedTime(minDateProp, timeZone) : minDateProp;
+    if (!minDateTime) return date;
+    return date && compareDay(date, minDateTime) > 0 ? date : minDateTime;
+  }, [minDateProp, minDateTime, timeZone]);
+  const maxDate = useMemo(() => {
+    const date = timeZone && maxDateProp ? toZonedTime(maxDateProp, timeZone) : maxDateProp;
+    if (!maxDateTime) return date;
+    return date && compareDay(date, maxDateTime) < 0 ? date : maxDateTime;
+  }, [maxDateProp, maxDateTime, timeZone]);
+  const defaultVisibleDate = useMemo(
+    () =>
+      timeZone && defaultVisibleDateProp
+        ? toZonedTime(defaultVisibleDateProp, timeZone)
+        : defaultVisibleDateProp,
+    [defaultVisibleDateProp, timeZone],
+  );
+  const toZonedMatcher = useCallback(
+    (matcher: DateMatcher) =>
+      timeZone
+        ? mapDateMatcher(
+            matcher,
+            (date) => toZonedTime(date, timeZone),
+            (date) => fromZonedTime(date, timeZone),
+          )
+        : matcher,
+    [timeZone],
+  );
+  const isUnavailableByProp = useMemo(() => {
+    const isUnavailable =
+      timeZone && isDateUnavailableProp
+        ? (date: Date) => isDateUnavailableProp(fromZonedTime(date, timeZone))
+        : isDateUnavailableProp;
+    if (disabledProp === undefined) return isUnavailable;
+    const disabled = toZonedMatcher(disabledProp);
+    return (date: Date) => matchDate(date, disabled) || !!isUnavailable?.(date);
+  }, [disabledProp, isDateUnavailableProp, timeZone, toZonedMatcher]);
+  const modifiers = useMemo(
+    () =>
+      modifiersProp &&
+      Object.fromEntries(
+        Object.entries(modifiersProp).map(([name, matcher]) => [name, toZonedMatcher(matcher)]),
+      ),
+    [modifiersProp, toZonedMatcher],
+  );
+  const getDayMeta = useMemo(
+    () =>
+      timeZone && getDayMetaProp
+        ? (date: Date) => getDayMetaProp(fromZonedTime(date, timeZone))
+        : getDayMetaProp,
+    [getDayMetaProp, timeZone],
+  );
+
   const generatedId = useId();
   const id = idProp ?? generatedId;
   const triggerRef = useRef<HTMLElement | null>(null);
   const contentRef = useRef<HTMLElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const timeInputRef = useRef<HTMLInputElement | null>(null);
-  const focusedDateRef = useRef<Date>(
-    normalizeDate(defaultVisibleDate ?? new Date()) ?? new Date(),
-  );
-
-  const initialValue = useMemo(() => {
-    if (valueProp !== undefined) return valueProp;
-    return isRange
+  const focusedDateRef = useRef<Date>(normalizeDate(defaultVisibleDate ?? getNow()) ?? getNow());
+  const shouldFocusDayRef = useRef(false);
+
+  const defaultSelection = useMemo(() => {
+    if (isMultiple) {
+      return isDateList(defaultValue)
+        ? defaultValue.map((date) => normalizeDate(date) ?? date).sort(compareDay)
+        : [];
+    }
+    return isRange || isWeek
       ? (normalizeRange(defaultValue as DateRangeValue) ?? null)
       : normalizeDate(defaultValue as Date);
-  }, [valueProp, defaultValue, isRange]);
+  }, [defaultValue, isMultiple, isRange, isWeek]);
+  const initialValue = zonedValue !== undefined ? zonedValue : defaultSelection;
 
   const [value, setValue] = useControllableState<DatePickerValue | null>({
-    value: valueProp,
+    value: zonedValue,
     defaultValue: initialValue ?? null,
     onChange: (next) => {
-      onChange?.(next as DatePickerValue);
+      onChange?.(
+        (timeZone
+          ? mapValueDates(next, (date) => fromZonedTime(date, timeZone))
+          : next) as DatePickerValue,
+      );
     },
   });
 
   const initialView = useMemo(
-    () => getInitialViewDate(initialValue ?? undefined, defaultVisibleDate),
-    [initialValue, defaultVisibleDate],
+    () => getInitialViewDate(initialValue ?? undefined, defaultVisibleDate ?? getNow()),
+    [initialValue, defaultVisibleDate, getNow],
   );
 
   const [view, setView] = useState(() => normalizeDate(initialView) ?? new Date());
   const [lastHighlighted, setLastHighlighted] = useState<Date>(
     () => normalizeDate(initialView) ?? new Date(),
   );
+  const [inputDraft, setInputDraft] = useState<string | null>(null);
+  const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
+  const [rangeError, setRangeError] = useState<DateRangeError | null>(null);
+  const [inputError, setInputError] = useState<DatePickerValidationError | null>(null);
+  const [viewMode, setViewMode] = useState<DatePickerView>(minView);
+  const [availability, setAvailability] = useState<Map<string, MonthAvailability>>(() => new Map());
+  const [availabilityVersion, setAvailabilityVersion] = useState(0);
+  const availabilityRef = useRef(availability);
+  const loadAvailabilityRef = useRef(loadAvailability);
+  const availabilityControllersRef = useRef(new Map<string, AbortController>());
+  const hasAvailabilityLoader = !!loadAvailability;
+
+  useEffect(() => {
+    availabilityRef.current = availability;
+  }, [availability]);
+
+  useEffect(() => {
+    loadAvailabilityRef.current = loadAvailability;
+  }, [loadAvailability]);
+
+  // Month grids are keyed by their first day, which also covers changes to `weekStartsOn`.
+  const availabilityGrids = useMemo(() => {
+    if (!hasAvailabilityLoader) return [];
+    const base = calendarSystem.startOfMonth(view);
+    return Array.from({ length: Math.max(1, numberOfMonths) }).map((_, index) => {
+      const start = getGridStart(calendarSystem.addMonths(base, index), weekStartsOn);
+      const end = new Date(start);
+      end.setDate(start.getDate() + GRID_WEEKS * 7 - 1);
+      return { key: String(getDayIndex(start)), start, end };
+    });
+  }, [calendarSystem, hasAvailabilityLoader, numberOfMonths, view, weekStartsOn]);
+
+  useEffect(() => {
+    const controllers = availabilityControllersRef.current;
+    const keys = new Set(availabilityGrids.map((grid) => grid.key));
+    controllers.forEach((controller, key) => {
+      if (keys.has(key)) return;
+      controller.abort();
+      controllers.delete(key);
+    });
+
+    const load = loadAvailabilityRef.current;
+    if (!load) return;
+    for (const grid of availabilityGrids) {
+      if (controllers.has(grid.key)) continue;
+      if (availabilityRef.current.get(grid.key)?.status === 'loaded') continue;
+      const controller = new AbortController();
+      const settle = (entry: MonthAvailability) => {
+        if (controller.signal.aborted) return;
+        controllers.delete(grid.key);
+        setAvailability((prev) => new Map(prev).set(grid.key, entry));
+      };
+      controllers.set(grid.key, controller);
+      setAvailability((prev) => new Map(prev).set(grid.key, { status: 'loading' }));
+      load({
+        start: timeZone ? fromZonedTime(grid.start, timeZone) : grid.start,
+        end: timeZone ? fromZonedTime(grid.end, timeZone) : grid.end,
+        signal: controller.signal,
+      }).then(
+        (dates) =>
+          settle({
+            status: 'loaded',
+            start: getDayIndex(grid.start),
+            end: getDayIndex(grid.end),
+            unavailable: new Set(
+              dates.map((date) => getDayIndex(timeZone ? toZonedTime(date, timeZone) : date)),
+            ),
+          }),
+        // Failed months stay disabled until they re-enter the view or `reloadAvailability` runs.
+        () => settle({ status: 'error' }),
+      );
+    }
+  }, [availabilityGrids, availabilityVersion, timeZone]);
+
+  useEffect(() => {
+    const controllers = availabilityControllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const reloadAvailability = useCallback(() => {
+    const controllers = availabilityControllersRef.current;
+    controllers.forEach((controller) => controller.abort());
+    controllers.clear();
+    availabilityRef.current = new Map();
+    setAvailability(availabilityRef.current);
+    setAvailabilityVersion((version) => version + 1);
+  }, []);
+
+  const isLoading = availabilityGrids.some((grid) => {
+    const status = availability.get(grid.key)?.status;
+    return status !== 'loaded' && status !== 'error';
+  });
+
+  // Only days reported unavailable block typed dates and ranges; days of months that have not
+  // loaded yet are merely disabled in the grid.
+  const isDateUnavailable = useMemo(
+    () =>
+      hasAvailabilityLoader
+        ? (date: Date) =>
+            !!isUnavailableByProp?.(date) ||
+            getDayAvailability(date, availability) === 'unavailable'
+        : isUnavailableByProp,
+    [availability, hasAvailabilityLoader, isUnavailableByProp],
+  );
+  const isGridDayUnavailable = useMemo(
+    () =>
+      hasAvailabilityLoader
+        ? (date: Date) =>
+            !!isUnavailableByProp?.(date) || getDayAvailability(date, availability) !== 'available'
+        : isUnavailableByProp,
+    [availability, hasAvailabilityLoader, isUnavailableByProp],
+  );
+  const dateFormatter = useMemo(
+    () =>
+      createDateFormatter({
+        locale,
+        format,
+        formatOptions,
+        parse,
+        calendar,
+        withTime: enableTimeSelection,
+      }),
+    [calendar, enableTimeSelection, format, formatOptions, locale, parse],
+  );
+  // Drafts live in a ref so key handlers see edits made earlier in the same event;
+  // the state setter only schedules the re-render.
+  const segmentDraftsRef = useRef<Partial<Record<DateSegmentEndpoint, SegmentValues>>>({});
+  const [, setSegmentDrafts] = useState(segmentDraftsRef.current);
+  const segmentBufferRef = useRef<{ key: string; text: string } | null>(null);
 
   const timeInitial = useMemo(() => {
     if (timeProp !== undefined) return timeProp;
-    if (enableTimeSelection) return defaultTimeValue ?? toTimeString(initialValue);
+    if (enableTimeSelection) return defaultTimeValue ?? toTimeString(initialValue, showSeconds);
     return null;
-  }, [timeProp, enableTimeSelection, defaultTimeValue, initialValue]);
+  }, [timeProp, enableTimeSelection, defaultTimeValue, initialValue, showSeconds]);
 
   const [time, setTime] = useControllableState<string | null>({
     value: timeProp,
@@ -429,6 +1622,112 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
     },
   });
 
+  // Range mode keeps one time per endpoint instead of the shared `time`.
+  const startTimeInitial = useMemo(() => {
+    if (startTimeProp !== undefined) return startTimeProp;
+    if (!enableTimeSelection) return null;
+    const start = isDateRange(initialValue) ? initialValue.start : null;
+    return defaultStartTime ?? defaultTimeValue ?? toTimeString(start, showSeconds);
+  }, [
+    startTimeProp,
+    enableTimeSelection,
+    defaultStartTime,
+    defaultTimeValue,
+    initialValue,
+    showSeconds,
+  ]);
+
+  const endTimeInitial = useMemo(() => {
+    if (endTimeProp !== undefined) return endTimeProp;
+    if (!enableTimeSelection) return null;
+    const end = isDateRange(initialValue) ? initialValue.end : null;
+    return defaultEndTime ?? defaultTimeValue ?? toTimeString(end, showSeconds);
+  }, [
+    endTimeProp,
+    enableTimeSelection,
+    defaultEndTime,
+    defaultTimeValue,
+    initialValue,
+    showSeconds,
+  ]);
+
+  const [startTime, setStartTime] = useControllableState<string | null>({
+    value: startTimeProp,
+    defaultValue: startTimeInitial ?? null,
+    onChange: (next) => {
+      if (next != null) onStartTimeChange?.(next);
+    },
+  });
+
+  const [endTime, setEndTime] = useControllableState<string | null>({
+    value: endTimeProp,
+    defaultValue: endTimeInitial ?? null,
+    onChange: (next) => {
+      if (next != null) onEndTimeChange?.(next);
+    },
+  });
+
+  const getEndpointTime = useCallback(
+    (endpoint: DateSegmentEndpoint) => {
+      if (!isRange) return time;
+      return endpoint === 'end' ? endTime : startTime;
+    },
+    [endTime, isRange, startTime, time],
+  );
+
+  const hourCycle = useMemo(
+    () => hourCycleProp ?? getLocaleHourCycle(locale),
+    [hourCycleProp, locale],
+  );
+
+  const timeUnits = useMemo<TimeUnit[]>(() => {
+    const units: TimeUnit[] = ['hour', 'minute'];
+    if (showSeconds) units.push('second');
+    if (hourCycle === 'h12') units.push('period');
+    return units;
+  }, [hourCycle, showSeconds]);
+
+  // `minTime`/`maxTime` apply to every day; `minDateTime`/`maxDateTime` only to their own day.
+  const getTimeBounds = useCallback(
+    (date: Date | null): TimeBounds => {
+      let min = parseTimeString(minTime) ?? FULL_DAY.min;
+      let max = parseTimeString(maxTime) ?? FULL_DAY.max;
+      if (date && minDateTime && areSameDay(date, minDateTime)) {
+        min = Math.max(min, getSecondsOfDay(minDateTime));
+      }
+      if (date && maxDateTime && areSameDay(date, maxDateTime)) {
+        max = Math.min(max, getSecondsOfDay(maxDateTime));
+      }
+      return { min, max };
+    },
+    [maxDateTime, maxTime, minDateTime, minTime],
+  );
+
+  const applyTime = useCallback(
+    (date: Date, next: string | null) => {
+      const seconds = parseTimeString(next);
+      if (seconds == null) return applyTimeString(date, next);
+      const snapped = snapTime(seconds, {
+        step: timeStep,
+        withSeconds: showSeconds,
+        bounds: getTimeBounds(date),
+      });
+      return applyTimeString(date, formatTimeString(snapped, showSeconds));
+    },
+    [getTimeBounds, showSeconds, timeStep],
+  );
+
+  const isTimeRangeInvalid =
+    isRange &&
+    enableTimeSelection &&
+    isDateRange(value) &&
+    !!value.start &&
+    !!value.end &&
+    areSameDay(value.start, value.end) &&
+    !!startTime &&
+    !!endTime &&
+    endTime < startTime;
+
   useEffect(() => {
     if (value == null) return;
     if (isDateRange(value)) {
@@ -453,20 +1752,155 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
   const isOpen = disclosure.open;
   const { onOpen: open, onClose: close, onToggle: toggle } = disclosure;
 
-  const { weeks, weekDays } = useMemo(
-    () =>
-      getMonthDays(view ?? new Date(), {
+  const pendingStart =
+    isRange && isDateRange(value) && value.start && !value.end ? value.start : null;
+
+  const getBlockedRangeError = useCallback(
+    (blocked: Date): DateRangeError => ({
+      reason: 'unavailable',
+      date: blocked,
+      message: formatMessage(translations.dateUnavailable, {
+        date: dateFormatter.format(blocked),
+      }),
+    }),
+    [dateFormatter, translations],
+  );
+
+  const checkRange = useCallback(
+    (start: Date, end: Date): DateRangeError | null => {
+      const lengthError = getRangeLengthError(
+        start,
+        end,
+        { min: minRangeLength, max: maxRangeLength },
+        translations,
+      );
+      if (lengthError || allowUnavailableInRange || !isDateUnavailable) return lengthError;
+      const blocked = findUnavailableInRange(start, end, isDateUnavailable);
+      return blocked ? getBlockedRangeError(blocked) : null;
+    },
+    [
+      allowUnavailableInRange,
+      getBlockedRangeError,
+      isDateUnavailable,
+      maxRangeLength,
+      minRangeLength,
+      translations,
+    ],
+  );
+
+  // The nearest unavailable days on either side of the pending start, found once so grid
+  // cells only compare against them.
+  const pendingBlockedDays = useMemo(() => {
+    if (!pendingStart || allowUnavailableInRange || !isDateUnavailable) return null;
+    const getScanEnd = (direction: 1 | -1) => {
+      const date = normalizeDate(pendingStart) ?? new Date(pendingStart);
+      date.setDate(date.getDate() + direction * MAX_RANGE_SCAN_DAYS);
+      return date;
+    };
+    return {
+      before: findUnavailableInRange(pendingStart, getScanEnd(-1), isDateUnavailable),
+      after: findUnavailableInRange(pendingStart, getScanEnd(1), isDateUnavailable),
+    };
+  }, [allowUnavailableInRange, isDateUnavailable, pendingStart]);
+
+  const getPendingRangeError = useCallback(
+    (date: Date): DateRangeError | null => {
+      if (!pendingStart) return null;
+      const lengthError = getRangeLengthError(
+        pendingStart,
+        date,
+        { min: minRangeLength, max: maxRangeLength },
+        translations,
+      );
+      if (lengthError || !pendingBlockedDays) return lengthError;
+      const isAfter = compareDay(date, pendingStart) >= 0;
+      const blocked = isAfter ? pendingBlockedDays.after : pendingBlockedDays.before;
+      if (!blocked) return null;
+      const isPastBlocked = isAfter
+        ? compareDay(date, blocked) >= 0
+        : compareDay(date, blocked) <= 0;
+      return isPastBlocked ? getBlockedRangeError(blocked) : null;
+    },
+    [
+      getBlockedRangeError,
+      maxRangeLength,
+      minRangeLength,
+      pendingBlockedDays,
+      pendingStart,
+      translations,
+    ],
+  );
+
+  // The pending start stays enabled so clicking it again can report why it cannot end the range.
+  const isOutsideAllowedRange = useCallback(
+    (date: Date) =>
+      !!pendingStart && !areSameDay(date, pendingStart) && !!getPendingRangeError(date),
+    [getPendingRangeError, pendingStart],
+  );
+
+  const { months, weekDays } = useMemo(() => {
+    const base = calendarSystem.startOfMonth(view ?? new Date());
+    let days: string[] = [];
+    const visibleMonths = Array.from({ length: Math.max(1, numberOfMonths) }).map((_, index) => {
+      const monthDate = calendarSystem.addMonths(base, index);
+      const { year, month } = calendarSystem.getFields(monthDate);
+      const result = getMonthDays(monthDate, {
         locale,
         weekStartsOn,
         minDate: minDate ? (normalizeDate(minDate) ?? undefined) : undefined,
         maxDate: maxDate ? (normalizeDate(maxDate) ?? undefined) : undefined,
-        isDateUnavailable,
-      }),
-    [view, locale, weekStartsOn, minDate, maxDate, isDateUnavailable],
+        isDateUnavailable: isGridDayUnavailable,
+        isOutsideAllowedRange,
+        getDayMeta,
+        modifiers,
+        today: getNow(),
+        calendarSystem,
+      });
+      days = result.weekDays;
+      return { year, month, date: monthDate, weeks: result.weeks };
+    });
+    return { months: visibleMonths, weekDays: days };
+  }, [
+    view,
+    getNow,
+    numberOfMonths,
+    locale,
+    weekStartsOn,
+    minDate,
+    maxDate,
+    isGridDayUnavailable,
+    isOutsideAllowedRange,
+    getDayMeta,
+    modifiers,
+    calendarSystem,
+  ]);
+  const weeks = months[0].weeks;
+  const navigationStep =
+    viewMode === 'day'
+      ? pagedNavigation
+        ? Math.max(1, numberOfMonths)
+        : 1
+      : VIEW_UNIT_MONTHS[viewMode] * (viewMode === 'month' ? 12 : 10);
+
+  const viewCells = useMemo(
+    () =>
+      viewMode === 'day'
+        ? []
+        : getViewCells(view, viewMode, {
+            locale,
+            minDate: minDate ? (normalizeDate(minDate) ?? undefined) : undefined,
+            maxDate: maxDate ? (normalizeDate(maxDate) ?? undefined) : undefined,
+            selectedDates: getSelectedDates(value),
+            today: getNow(),
+            calendar,
+            calendarSystem,
+          }),
+    [calendar, calendarSystem, getNow, locale, maxDate, minDate, value, view, viewMode],
   );
 
   const hasSelectedDate = useMemo(() => {
     if (!value) return false;
+    if (isDateList(value)) return value.length > 0;
     if (isDateRange(value)) {
       return !!value.start || !!value.end;
     }
@@ -477,25 +1911,53 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
     (day: Date) => {
       const date = normalizeDate(day);
       if (!value || !date) return false;
+      if (isDateList(value)) return value.some((selected) => areSameDay(date, selected));
       if (isDateRange(value)) {
+        if (isWeek && value.start && value.end) {
+          return compareDay(value.start, date) <= 0 && compareDay(date, value.end) <= 0;
+        }
         return areSameDay(date, value.start) || areSameDay(date, value.end);
       }
       return areSameDay(date, value as Date);
     },
-    [value],
+    [isWeek, value],
   );
 
   const isInRange = useCallback(
     (day: Date) => {
       const date = normalizeDate(day);
-      if (!value || !date || !isRange || !isDateRange(value)) return false;
+      if (!value || !date || !(isRange || isWeek) || !isDateRange(value)) return false;
       const { start, end } = value;
       if (!start || !end) return false;
       return compareDay(start, date) <= 0 && compareDay(date, end) <= 0;
     },
-    [value, isRange],
+    [value, isRange, isWeek],
+  );
+
+  // While only the range start is set, the hovered or focused day stands in for the end
+  // so the pending span can be previewed in either direction.
+  const previewRange = useMemo<{ start: Date; end: Date } | null>(() => {
+    if (!isRange || !hoveredDate || !isDateRange(value) || !value.start || value.end) return null;
+    return compareDay(value.start, hoveredDate) <= 0
+      ? { start: value.start, end: hoveredDate }
+      : { start: hoveredDate, end: value.start };
+  }, [hoveredDate, isRange, value]);
+
+  const isInPreview = useCallback(
+    (day: Date) => {
+      const date = normalizeDate(day);
+      if (!previewRange || !date) return false;
+      return compareDay(previewRange.start, date) <= 0 && compareDay(date, previewRange.end) <= 0;
+    },
+    [previewRange],
   );
 
+  const rangeBounds = useMemo<DateRangeValue | null>(() => {
+    if (previewRange) return previewRange;
+    if (!(isRange || isWeek) || !isDateRange(value)) return null;
+    return value;
+  }, [isRange, isWeek, previewRange, value]);
+
   const selectDate = useCallback(
     (day: Date) => {
       if (!day) return;
@@ -509,86 +1971,394 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
       if (!date) return;
       setLastHighlighted(date);
 
+      if (isWeek) {
+        const { start, end } = getWeekRange(date, weekStartsOn);
+        const min = minDate ? (normalizeDate(minDate) ?? undefined) : undefined;
+        const max = maxDate ? (normalizeDate(maxDate) ?? undefined) : undefined;
+        setValue({ start: clampDate(start, min, max), end: clampDate(end, min, max) });
+        if (closeOnSelect) close();
+        return;
+      }
+
+      if (isMultiple) {
+        const current = isDateList(value) ? value : [];
+        if (current.some((selected) => areSameDay(selected, date))) {
+          setValue(current.filter((selected) => !areSameDay(selected, date)));
+          return;
+        }
+        if (maxSelections != null && current.length >= maxSelections) return;
+        const added = enableTimeSelection ? applyTime(date, time) : date;
+        setValue([...current, added].sort(compareDay));
+        return;
+      }
+
       if (isRange) {
         const current = isDateRange(value) ? value : null;
-        if (!current || (current.start && current.end)) {
-          const nextRange: DateRangeValue = { start: date, end: null };
-          setValue(nextRange);
-          if (enableTimeSelection && time) {
-            const [hours, minutes] = time.split(':');
-            nextRange.start?.setHours(Number(hours), Number(minutes), 0, 0);
-          }
+        if (!current || (current.start && current.end) || !current.start) {
+          const start = enableTimeSelection ? applyTime(date, startTime) : date;
+          setValue({ start, end: null });
           return;
         }
-        if (!current.start) {
-          const nextRange: DateRangeValue = { start: date, end: null };
-          setValue(nextRange);
+        const error = checkRange(current.start, date);
+        if (error) {
+          setRangeError(error);
           return;
         }
         const nextRange: DateRangeValue = { start: current.start, end: date };
         const ordered = ensureRangeOrder(nextRange, allowSameDateSelection);
-        setValue(ordered);
+        // Time is composed before the value is emitted so zone conversion sees it.
+        setValue(
+          enableTimeSelection && ordered
+            ? applyRangeTimes(ordered, startTime, endTime, applyTime)
+            : ordered,
+        );
         if (closeOnSelect) close();
-        if (enableTimeSelection && time) {
-          const [hours, minutes] = time.split(':');
-          ordered?.end?.setHours(Number(hours), Number(minutes), 0, 0);
-        }
         return;
       }
 
-      const nextValue = date;
-      if (enableTimeSelection && time) {
-        const [hours, minutes] = time.split(':');
-        nextValue.setHours(Number(hours), Number(minutes), 0, 0);
-      }
-      setValue(nextValue);
+      setValue(enableTimeSelection ? applyTime(date, time) : date);
       if (closeOnSelect) close();
     },
     [
       allowSameDateSelection,
+      applyTime,
+      checkRange,
       close,
       closeOnSelect,
       enableTimeSelection,
+      endTime,
+      isMultiple,
       isRange,
+      isWeek,
       maxDate,
+      maxSelections,
       minDate,
       setValue,
+      startTime,
       time,
       value,
+      weekStartsOn,
     ],
   );
 
   const clear = useCallback(() => {
-    if (isRange) {
+    if (isMultiple) {
+      setValue([]);
+    } else if (isRange || isWeek) {
       setValue({ start: null, end: null });
     } else {
       setValue(null);
     }
-  }, [isRange, setValue]);
+  }, [isMultiple, isRange, isWeek, setValue]);
+
+  const reset = useCallback(() => {
+    if (defaultSelection) {
+      setValue(defaultSelection);
+    } else {
+      clear();
+    }
+    setTime(timeInitial);
+    setStartTime(startTimeInitial);
+    setEndTime(endTimeInitial);
+    setInputDraft(null);
+    setRangeError(null);
+    setInputError(null);
+    setView(
+      normalizeDate(
+        getInitialViewDate(defaultSelection ?? undefined, defaultVisibleDate ?? getNow()),
+      ) ?? getNow(),
+    );
+  }, [
+    clear,
+    defaultSelection,
+    defaultVisibleDate,
+    endTimeInitial,
+    getNow,
+    setEndTime,
+    setStartTime,
+    setTime,
+    setValue,
+    startTimeInitial,
+    timeInitial,
+  ]);
+
+  // Days still waiting for `loadAvailability` are not selectable but not invalid either.
+  const getDateError = useCallback(
+    (date: Date): DatePickerValidationError | null => {
+      if (minDate && compareDay(date, minDate) < 0) {
+        return {
+          reason: 'beforeMin',
+          date,
+          message: formatMessage(translations.beforeMin, { date: dateFormatter.format(minDate) }),
+        };
+      }
+      if (maxDate && compareDay(date, maxDate) > 0) {
+        return {
+          reason: 'afterMax',
+          date,
+          message: formatMessage(translations.afterMax, { date: dateFormatter.format(maxDate) }),
+        };
+      }
+      if (isDateUnavailable?.(date)) {
+        return {
+          reason: 'unavailable',
+          date,
+          message: formatMessage(translations.dateUnavailable, {
+            date: dateFormatter.format(date),
+          }),
+        };
+      }
+      return null;
+    },
+    [dateFormatter, isDateUnavailable, maxDate, minDate, translations],
+  );
+
+  const isSelectableDate = useCallback(
+    (date: Date) => {
+      if (minDate && compareDay(date, minDate) < 0) return false;
+      if (maxDate && compareDay(date, maxDate) > 0) return false;
+      return !isDateUnavailable?.(date);
+    },
+    [isDateUnavailable, maxDate, minDate],
+  );
+
+  const isWeekNumberClickable = isRange || isWeek || !!onWeekNumberClick;
+
+  const selectWeek = useCallback(
+    (week: CalendarWeek) => {
+      onWeekNumberClick?.(
+        week.weekNumber,
+        week.map((day) => day.date),
+      );
+      if (!isRange && !isWeek) return;
+      const selectable = week.map((day) => day.date).filter(isSelectableDate);
+      if (selectable.length === 0) return;
+      if (isWeek) {
+        selectDate(selectable[0]);
+        return;
+      }
+      const start = selectable[0];
+      const end = selectable[selectable.length - 1];
+      setLastHighlighted(start);
+      const error = checkRange(start, end);
+      if (error) {
+        setRangeError(error);
+        return;
+      }
+      const range = { start, end };
+      setValue(enableTimeSelection ? applyRangeTimes(range, startTime, endTime, applyTime) : range);
+      if (closeOnSelect) close();
+    },
+    [
+      applyTime,
+      checkRange,
+      close,
+      closeOnSelect,
+      enableTimeSelection,
+      endTime,
+      isRange,
+      isSelectableDate,
+      isWeek,
+      onWeekNumberClick,
+      selectDate,
+      setValue,
+      startTime,
+    ],
+  );
+
+  const commitInputValue = useCallback(
+    (text: string) => {
+      setInputDraft(null);
+      setInputError(null);
+      const trimmed = text.trim();
+      if (!trimmed) {
+        clear();
+        return true;
+      }
+
+      const reject = (error: DatePickerValidationError | null) => {
+        setInputError(error);
+        return false;
+      };
+      const parseError: DatePickerValidationError = {
+        reason: 'parseError',
+        message: translations.parseError,
+      };
+      const getRejectedDate = (dates: (Date | null)[]) =>
+        dates.find((date) => date && !isSelectableDate(date));
+
+      const resolve = (segment: string, endpoint: DateSegmentEndpoint = 'start') => {
+        if (!segment) return null;
+        const parsed = dateFormatter.parse(segment);
+        if (!parsed) return undefined;
+        if (parsed.hasTime || !enableTimeSelection) return parsed.date;
+        return applyTime(parsed.date, getEndpointTime(endpoint));
+      };
+
+      if (isRange) {
+        const [startText = '', endText = ''] = splitRangeString(trimmed, rangeSeparator);
+        const start = resolve(startText, 'start');
+        const end = resolve(endText, 'end');
+        if (start === undefined || end === undefined || (!start && !end)) return reject(parseError);
+        const rejected = getRejectedDate([start, end]);
+        if (rejected) return reject(getDateError(rejected));
+        const error = start && end ? checkRange(start, end) : null;
+        if (error) {
+          setRangeError(error);
+          return false;
+        }
+        const ordered = ensureRangeOrder({ start, end }, allowSameDateSelection);
+        if (ordered?.start && ordered.end && ordered.end < ordered.start) {
+          return reject({ reason: 'invalidTime', message: translations.invalidTime });
+        }
+        setValue(ordered);
+        if (enableTimeSelection) {
+          if (ordered?.start) setStartTime(toTimeString(ordered.start, showSeconds));
+          if (ordered?.end) setEndTime(toTimeString(ordered.end, showSeconds));
+        }
+        const anchor = normalizeDate(ordered?.start ?? ordered?.end ?? null);
+        if (anchor) {
+          setView(anchor);
+          setLastHighlighted(anchor);
+        }
+        return true;
+      }
+
+      const date = resolve(trimmed);
+      if (!date) return reject(parseError);
+      if (!isSelectableDate(date)) return reject(getDateError(date));
+      const anchor = normalizeDate(date) ?? date;
+      if (isWeek) {
+        setValue(getWeekRange(anchor, weekStartsOn));
+        setView(anchor);
+        setLastHighlighted(anchor);
+        return true;
+      }
+      setValue(date);
+      if (enableTimeSelection) setTime(toTimeString(date, showSeconds));
+      setView(anchor);
+      setLastHighlighted(anchor);
+      return true;
+    },
+    [
+      allowSameDateSelection,
+      applyTime,
+      checkRange,
+      clear,
+      dateFormatter,
+      enableTimeSelection,
+      getDateError,
+      getEndpointTime,
+      isRange,
+      isSelectableDate,
+      isWeek,
+      rangeSeparator,
+      setEndTime,
+      setStartTime,
+      setTime,
+      setValue,
+      showSeconds,
+      translations,
+      weekStartsOn,
+    ],
+  );
 
   const gotoPreviousMonth = useCallback(() => {
-    setView((prev) => addMonths(prev, -1));
-  }, []);
+    setView((prev) => calendarSystem.addMonths(prev, -navigationStep));
+  }, [calendarSystem, navigationStep]);
 
   const gotoNextMonth = useCallback(() => {
-    setView((prev) => addMonths(prev, 1));
-  }, []);
+    setView((prev) => calendarSystem.addMonths(prev, navigationStep));
+  }, [calendarSystem, navigationStep]);
 
-  const gotoMonth = useCallback((month: number) => {
-    setView((prev) => {
-      const next = new Date(prev);
-      next.setMonth(month);
-      return next;
-    });
-  }, []);
+  const gotoMonth = useCallback(
+    (month: number) => {
+      setView((prev) => calendarSystem.fromFields({ ...calendarSystem.getFields(prev), month }));
+    },
+    [calendarSystem],
+  );
 
-  const gotoYear = useCallback((year: number) => {
-    setView((prev) => {
-      const next = new Date(prev);
-      next.setFullYear(year);
-      return next;
-    });
-  }, []);
+  const gotoYear = useCallback(
+    (year: number) => {
+      setView((prev) => calendarSystem.fromFields({ ...calendarSystem.getFields(prev), year }));
+    },
+    [calendarSystem],
+  );
+
+  const gotoView = useCallback(
+    (next: DatePickerView) => {
+      const index = Math.min(
+        Math.max(getViewIndex(next), getViewIndex(minView)),
+        getViewIndex(maxView),
+      );
+      const resolved = VIEW_ORDER[index];
+      if (resolved === viewMode) return;
+      setViewMode(resolved);
+      shouldFocusDayRef.current = true;
+      onViewChange?.(resolved);
+    },
+    [maxView, minView, onViewChange, viewMode],
+  );
+
+  const selectCell = useCallback(
+    (cell: CalendarCell) => {
+      if (cell.isDisabled) return;
+      setLastHighlighted(cell.date);
+      if (getViewIndex(cell.view) <= getViewIndex(minView)) {
+        selectDate(cell.date);
+        return;
+      }
+      setView(cell.date);
+      gotoView(VIEW_ORDER[getViewIndex(cell.view) - 1]);
+    },
+    [gotoView, minView, selectDate],
+  );
+
+  const handleCellKeyDown = useCallback(
+    (event: React.KeyboardEvent, cell: CalendarCell) => {
+      const unit = VIEW_UNIT_MONTHS[cell.view];
+      const page = cell.view === 'month' ? 12 : 10;
+      let offset: number;
+      switch (event.key) {
+        case 'ArrowRight':
+          offset = inlineStep;
+          break;
+        case 'ArrowLeft':
+          offset = -inlineStep;
+          break;
+        case 'ArrowDown':
+          offset = 3;
+          break;
+        case 'ArrowUp':
+          offset = -3;
+          break;
+        case 'PageDown':
+          offset = page;
+          break;
+        case 'PageUp':
+          offset = -page;
+          break;
+        case 'Enter':
+        case ' ':
+          event.preventDefault();
+          selectCell(cell);
+          return;
+        default:
+          return;
+      }
+      event.preventDefault();
+      const next = calendarSystem.addMonths(cell.date, offset * unit);
+      setLastHighlighted(next);
+      shouldFocusDayRef.current = true;
+      const periodMonths = unit * page;
+      const periodStart = (date: Date) => {
+        const { year, month } = calendarSystem.getFields(date);
+        return Math.floor((year * 12 + month) / periodMonths);
+      };
+      setView((prev) => (periodStart(prev) === periodStart(next) ? prev : next));
+    },
+    [calendarSystem, inlineStep, selectCell],
+  );
 
   const handleKeyDown = useCallback(
     (event: KeyboardEvent, day: Date) => {
@@ -596,10 +2366,10 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
       let next = new Date(day);
       switch (key) {
         case 'ArrowRight':
-          next.setDate(day.getDate() + 1);
+          next.setDate(day.getDate() + inlineStep);
           break;
         case 'ArrowLeft':
-          next.setDate(day.getDate() - 1);
+          next.setDate(day.getDate() - inlineStep);
           break;
         case 'ArrowDown':
           next.setDate(day.getDate() + 7);
@@ -609,16 +2379,16 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
           break;
         case 'PageDown':
           if (event.shiftKey) {
-            next = addMonths(day, -12);
+            next = calendarSystem.addMonths(day, -12);
           } else {
-            next = addMonths(day, 1);
+            next = calendarSystem.addMonths(day, 1);
           }
           break;
         case 'PageUp':
           if (event.shiftKey) {
-            next = addMonths(day, 12);
+            next = calendarSystem.addMonths(day, 12);
           } else {
-            next = addMonths(day, -1);
+            next = calendarSystem.addMonths(day, -1);
           }
           break;
         case 'Home':
@@ -640,17 +2410,19 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
       setView((prev) => {
         const candidate = normalizeDate(next) ?? next;
         if (!candidate) return prev;
-        if (
-          candidate.getMonth() !== prev.getMonth() ||
-          candidate.getFullYear() !== prev.getFullYear()
-        ) {
-          return normalizeDate(candidate) ?? candidate;
+        const visibleCount = Math.max(1, numberOfMonths);
+        const offset = getMonthOffset(prev, candidate, calendarSystem);
+        if (offset >= 0 && offset < visibleCount) return prev;
+        if (pagedNavigation) {
+          return calendarSystem.addMonths(prev, Math.floor(offset / visibleCount) * visibleCount);
         }
-        return prev;
+        if (offset < 0 || visibleCount === 1) return candidate;
+        return calendarSystem.addMonths(candidate, -(visibleCount - 1));
       });
       focusedDateRef.current = normalizeDate(next) ?? next;
+      shouldFocusDayRef.current = true;
     },
-    [selectDate, weekStartsOn],
+    [calendarSystem, inlineStep, numberOfMonths, pagedNavigation, selectDate, weekStartsOn],
   );
 
   useEffect(() => {
@@ -676,19 +2448,460 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
     enabled: isOpen,
   });
 
+  const segmentLayout = useMemo(
+    () => getDateSegmentLayout(locale, enableTimeSelection, showSeconds),
+    [enableTimeSelection, locale, showSeconds],
+  );
+
+  const getEndpointDate = useCallback(
+    (endpoint: DateSegmentEndpoint) => {
+      if (isDateRange(value)) return endpoint === 'end' ? value.end : value.start;
+      return value instanceof Date ? value : null;
+    },
+    [value],
+  );
+
+  const writeSegmentDrafts = useCallback(
+    (next: Partial<Record<DateSegmentEndpoint, SegmentValues>>) => {
+      segmentDraftsRef.current = next;
+      setSegmentDrafts(next);
+    },
+    [],
+  );
+
+  useUpdateEffect(() => {
+    writeSegmentDrafts({});
+    setRangeError(null);
+  }, [value]);
+
+  const getSegmentValues = useCallback(
+    (endpoint: DateSegmentEndpoint) =>
+      segmentDraftsRef.current[endpoint] ??
+      getSegmentValuesFromDate(getEndpointDate(endpoint), getEndpointTime(endpoint)),
+    [getEndpointDate, getEndpointTime],
+  );
+
+  const getSegments = useCallback(
+    (endpoint: DateSegmentEndpoint = 'start') => {
+      const values = getSegmentValues(endpoint);
+      return segmentLayout.map<DateSegment>((item) => {
+        if (item.type === 'literal') {
+          return {
+            type: 'literal',
+            endpoint,
+            text: item.text,
+            value: null,
+            minValue: 0,
+            maxValue: 0,
+            isPlaceholder: false,
+          };
+        }
+        const segmentValue = values[item.type];
+        return {
+          type: item.type,
+          endpoint,
+          text:
+            segmentValue == null
+              ? SEGMENT_PLACEHOLDERS[item.type]
+              : String(segmentValue).padStart(item.type === 'year' ? 4 : 2, '0'),
+          value: segmentValue,
+          ...getSegmentLimits(item.type, values),
+          isPlaceholder: segmentValue == null,
+        };
+      });
+    },
+    [getSegmentValues, segmentLayout],
+  );
+
+  const commitSegmentValues = useCallback(
+    (endpoint: DateSegmentEndpoint, values: SegmentValues) => {
+      const { day, month, year } = values;
+      const nextDrafts = { ...segmentDraftsRef.current };
+      delete nextDrafts[endpoint];
+
+      if (day == null && month == null && year == null) {
+        writeSegmentDrafts(nextDrafts);
+        if (isMultiple) return;
+        if (isWeek) {
+          setValue({ start: null, end: null });
+        } else if (isRange) {
+          const current = isDateRange(value) ? value : { start: null, end: null };
+          setValue({ ...current, [endpoint]: null });
+        } else {
+          setValue(null);
+        }
+        return;
+      }
+
+      const needsTime =
+        enableTimeSelection &&
+        (values.hour == null || values.minute == null || (showSeconds && values.second == null));
+      if (day == null || month == null || year == null || needsTime) {
+        writeSegmentDrafts({ ...segmentDraftsRef.current, [endpoint]: values });
+        return;
+      }
+
+      const dayStart = new Date(year, month - 1, day);
+      dayStart.setFullYear(year);
+      // Segment times snap to `timeStep` and the time bounds like the popover's time field.
+      const date = enableTimeSelection
+        ? applyTime(
+            dayStart,
+            formatTimeString(
+              (values.hour ?? 0) * 3600 + (values.minute ?? 0) * 60 + (values.second ?? 0),
+              showSeconds,
+            ),
+          )
+        : dayStart;
+      if (!isSelectableDate(date)) {
+        writeSegmentDrafts({ ...segmentDraftsRef.current, [endpoint]: values });
+        return;
+      }
+
+      writeSegmentDrafts(nextDrafts);
+      const nextValue = enableTimeSelection ? date : (normalizeDate(date) ?? date);
+      if (isMultiple) {
+        // The segmented field acts as an "add date" entry in multiple mode.
+        const current = isDateList(value) ? value : [];
+        const isSelected = current.some((selected) => areSameDay(selected, nextValue));
+        if (!isSelected && (maxSelections == null || current.length < maxSelections)) {
+          setValue([...current, nextValue].sort(compareDay));
+        }
+      } else if (isWeek) {
+        setValue(getWeekRange(date, weekStartsOn));
+      } else if (isRange) {
+        const current = isDateRange(value) ? value : { start: null, end: null };
+        const next = { ...current, [endpoint]: nextValue };
+        const error = next.start && next.end ? checkRange(next.start, next.end) : null;
+        const ordered = ensureRangeOrder(next, allowSameDateSelection);
+        const endsBeforeStart = !!ordered?.start && !!ordered.end && ordered.end < ordered.start;
+        if (error || endsBeforeStart) {
+          if (error) setRangeError(error);
+          writeSegmentDrafts({ ...segmentDraftsRef.current, [endpoint]: values });
+          return;
+        }
+        setValue(ordered);
+      } else {
+        setValue(nextValue);
+      }
+      if (enableTimeSelection) {
+        const nextTime = toTimeString(date, showSeconds);
+        if (!isRange) setTime(nextTime);
+        else if (endpoint === 'end') setEndTime(nextTime);
+        else setStartTime(nextTime);
+      }
+      const anchor = normalizeDate(date) ?? date;
+      setView(anchor);
+      setLastHighlighted(anchor);
+    },
+    [
+      allowSameDateSelection,
+      applyTime,
+      checkRange,
+      enableTimeSelection,
+      isMultiple,
+      isRange,
+      isSelectableDate,
+      isWeek,
+      maxSelections,
+      setEndTime,
+      setStartTime,
+      setTime,
+      setValue,
+      showSeconds,
+      value,
+      weekStartsOn,
+      writeSegmentDrafts,
+    ],
+  );
+
+  const updateSegment = useCallback(
+    (segment: DateSegment, nextValue: number | null, commit: boolean) => {
+      if (segment.type === 'literal') return;
+      const values = { ...getSegmentValues(segment.endpoint), [segment.type]: nextValue };
+      if (values.day != null && (segment.type === 'month' || segment.type === 'year')) {
+        values.day = Math.min(values.day, getSegmentLimits('day', values).maxValue);
+      }
+      if (commit) {
+        commitSegmentValues(segment.endpoint, values);
+      } else {
+        writeSegmentDrafts({ ...segmentDraftsRef.current, [segment.endpoint]: values });
+      }
+    },
+    [commitSegmentValues, getSegmentValues, writeSegmentDrafts],
+  );
+
+  const getSegmentGroupProps = useCallback(
+    (endpoint: DateSegmentEndpoint = 'start') => ({
+      id: `${id}-segments-${endpoint}`,
+      role: 'group',
+      'data-part': 'segment-group',
+      'aria-label': isRange
+        ? translations[endpoint === 'end' ? 'endDate' : 'startDate']
+        : translations.placeholder,
+    }),
+    [id, isRange, translations],
+  );
+
+  const getSegmentProps = useCallback(
+    (segment: DateSegment) => {
+      if (segment.type === 'literal') {
+        return { 'aria-hidden': true, 'data-part': 'segment-literal' };
+      }
+      const { type, endpoint, value: segmentValue, minValue, maxValue } = segment;
+      const bufferKey = `${endpoint}-${type}`;
+      const maxLength = type === 'year' ? 4 : 2;
+
+      return {
+        id: `${id}-segment-${endpoint}-${type}`,
+        role: 'spinbutton',
+        tabIndex: 0,
+        inputMode: 'numeric',
+        'aria-label': translations[type],
+        'aria-valuenow': segmentValue ?? undefined,
+        'aria-valuemin': minValue,
+        'aria-valuemax': maxValue,
+        'aria-valuetext': segmentValue == null ? translations.empty : segment.text,
+        'data-part': 'segment',
+        'data-segment': type,
+        'data-placeholder': segment.isPlaceholder ? 'true' : undefined,
+        onFocus: () => {
+          segmentBufferRef.current = null;
+        },
+        onBlur: () => {
+          segmentBufferRef.current = null;
+          const draft = segmentDraftsRef.current[endpoint];
+          if (draft) commitSegmentValues(endpoint, draft);
+        },
+        onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+          const element = event.currentTarget;
+          switch (event.key) {
+            case 'ArrowUp':
+            case 'ArrowDown': {
+              event.preventDefault();
+              segmentBufferRef.current = null;
+              const step = event.key === 'ArrowUp' ? 1 : -1;
+              let next: number;
+              if (segmentValue == null) {
+                const now = getNow();
+                next = type === 'year' ? now.getFullYear() : step > 0 ? minValue : maxValue;
+              } else {
+                next = segmentValue + step;
+                if (next > maxValue) next = minValue;
+                if (next < minValue) next = maxValue;
+              }
+              updateSegment(segment, next, true);
+              return;
+            }
+            case 'ArrowLeft':
+            case 'ArrowRight':
+              event.preventDefault();
+              focusSiblingSegment(
+                element,
+                (event.key === 'ArrowRight') === (dir === 'ltr') ? 1 : -1,
+              );
+              return;
+            case 'Backspace':
+            case 'Delete': {
+              event.preventDefault();
+              const buffer = segmentBufferRef.current;
+              if (buffer?.key === bufferKey && buffer.text.length > 1) {
+                const text = buffer.text.slice(0, -1);
+                segmentBufferRef.current = { key: bufferKey, text };
+                updateSegment(segment, Number(text), false);
+                return;
+              }
+              segmentBufferRef.current = null;
+              updateSegment(segment, null, true);
+              return;
+            }
+            default:
+              break;
+          }
+
+          if (!/^\d$/.test(event.key)) return;
+          event.preventDefault();
+          const buffer = segmentBufferRef.current;
+          let text = buffer?.key === bufferKey ? buffer.text + event.key : event.key;
+          if (text.length > maxLength || Number(text) > maxValue) text = event.key;
+          const next = Number(text);
+          const isComplete = text.length >= maxLength || next * 10 > maxValue;
+          if (isComplete) {
+            segmentBufferRef.current = null;
+            updateSegment(segment, Math.max(next, minValue), true);
+            focusSiblingSegment(element, 1);
+            return;
+          }
+          segmentBufferRef.current = { key: bufferKey, text };
+          updateSegment(segment, next, false);
+        },
+      };
+    },
+    [commitSegmentValues, dir, getNow, id, translations, updateSegment],
+  );
+
+  const announcement = useMemo(
+    () =>
+      getSelectionAnnouncement(value ?? null, {
+        formatter: dateFormatter,
+        separator: rangeSeparator,
+        translations,
+        weekStartsOn: isWeek ? weekStartsOn : undefined,
+      }),
+    [dateFormatter, isWeek, rangeSeparator, translations, value, weekStartsOn],
+  );
+
+  const getLiveRegionProps = useCallback(
+    () => ({
+      id: `${id}-live-region`,
+      role: 'status',
+      'aria-live': 'polite',
+      'aria-atomic': true,
+      'data-part': 'live-region',
+    }),
+    [id],
+  );
+
+  const formFields = useMemo((): DatePickerFormField[] => {
+    if (!name) return [];
+    const toFieldValue = (date: Date | null | undefined, fieldTime = time) => {
+      if (!date) return '';
+      if (!enableTimeSelection) return formatDatePattern(date, 'yyyy-MM-dd');
+      const dateTime = applyTimeString(date, fieldTime);
+      return (timeZone ? fromZonedTime(dateTime, timeZone) : dateTime).toISOString();
+    };
+    if (isRange || isWeek) {
+      const range = isDateRange(value) ? value : null;
+      // Week ranges are emitted without a time, so their fields carry none either.
+      return [
+        {
+          name: startName ?? `${name}[start]`,
+          value: toFieldValue(range?.start, isRange ? startTime : null),
+        },
+        {
+          name: endName ?? `${name}[end]`,
+          value: toFieldValue(range?.end, isRange ? endTime : null),
+        },
+      ];
+    }
+    if (isMultiple) {
+      const dates = isDateList(value) ? value : [];
+      // An empty field keeps `required` validation working with no dates selected.
+      return dates.length
+        ? dates.map((date) => ({ name, value: toFieldValue(date) }))
+        : [{ name, value: '' }];
+    }
+    return [{ name, value: toFieldValue(value as Date | null) }];
+  }, [
+    endName,
+    endTime,
+    enableTimeSelection,
+    isMultiple,
+    isRange,
+    isWeek,
+    name,
+    startName,
+    startTime,
+    time,
+    timeZone,
+    value,
+  ]);
+
+  useUpdateEffect(() => {
+    setInputError(null);
+  }, [value]);
+
+  const validationError = useMemo((): DatePickerValidationError | null => {
+    if (inputError) return inputError;
+    const dates = isDateList(value)
+      ? value
+      : isDateRange(value)
+        ? [value.start, value.end]
+        : [value as Date | null];
+    for (const date of dates) {
+      const error = date ? getDateError(date) : null;
+      if (error) return error;
+    }
+    if (isRange && isDateRange(value) && !value.start !== !value.end && !isOpen) {
+      return { reason: 'incompleteRange', message: translations.incompleteRange };
+    }
+    if (isTimeRangeInvalid) {
+      return { reason: 'invalidTime', message: translations.invalidTime };
+    }
+    const message = validate?.(
+      (timeZone
+        ? mapValueDates(value ?? undefined, (date) => fromZonedTime(date, timeZone))
+        : value) ?? null,
+    );
+    return message ? { reason: 'custom', message } : null;
+  }, [
+    getDateError,
+    inputError,
+    isOpen,
+    isRange,
+    isTimeRangeInvalid,
+    timeZone,
+    translations,
+    validate,
+    value,
+  ]);
+  const isInvalid = isInvalidProp || !!validationError;
+
+  const hiddenInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Lets `form.checkValidity()` and `:invalid` see errors beyond `required`.
+  useEffect(() => {
+    hiddenInputRef.current?.setCustomValidity(validationError?.message ?? '');
+  }, [formFields, validationError]);
+
+  useEffect(() => {
+    const formElement = hiddenInputRef.current?.form;
+    if (!formElement) return;
+    formElement.addEventListener('reset', reset);
+    return () => formElement.removeEventListener('reset', reset);
+  }, [form, name, reset]);
+
+  // Hidden inputs stay focusable text inputs: `type="hidden"` and read-only inputs are skipped
+  // by constraint validation.
+  const getHiddenInputProps = useCallback(
+    (field: DatePickerFormField) => ({
+      ref: field === formFields[0] ? hiddenInputRef : undefined,
+      type: 'text',
+      name: field.name,
+      value: field.value,
+      form,
+      required: required || undefined,
+      disabled: isDisabled || undefined,
+      tabIndex: -1,
+      'aria-hidden': true,
+      'data-part': 'hidden-input',
+      onChange: () => {},
+      onFocus: () => (inputRef.current ?? triggerRef.current)?.focus(),
+    }),
+    [form, formFields, isDisabled, required],
+  );
+
   const getRootProps = useCallback(
     () => ({
       id: `${id}-root`,
+      dir,
+      'aria-invalid': isInvalid || undefined,
       'data-part': 'root',
+      'data-invalid': isInvalid ? 'true' : undefined,
+      'data-disabled': isDisabled ? 'true' : undefined,
     }),
-    [id],
+    [dir, id, isDisabled, isInvalid],
   );
 
   const getControlProps = useCallback(
     () => ({
       id: `${id}-control`,
+      'aria-invalid': isInvalid || undefined,
       'data-part': 'control',
+      'data-invalid': isInvalid ? 'true' : undefined,
+      'data-disabled': isDisabled ? 'true' : undefined,
       onClick: () => {
+        if (isDisabled) return;
         if (isOpen) {
           close();
         } else {
@@ -696,25 +2909,74 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
         }
       },
     }),
-    [close, id, isOpen, open],
+    [close, id, isDisabled, isInvalid, isOpen, open],
   );
 
   const getInputProps = useCallback(
     () => ({
-      id: `${id}-input`,
+      id: inputId ?? `${id}-input`,
       ref: inputRef,
-      readOnly: true,
+      disabled: isDisabled || undefined,
+      readOnly: !isEditable,
       role: 'combobox',
+      autoComplete: isEditable ? 'off' : undefined,
       'aria-expanded': isOpen,
       'aria-controls': `${id}-content`,
       'aria-haspopup': 'dialog',
-      value: formatDateLabel(value ?? null, locale),
-      placeholder: isRange ? 'Select date range' : 'Select date',
+      'aria-required': required || undefined,
+      'aria-invalid': isInvalid || undefined,
+      'aria-describedby': ariaDescribedBy,
+      'data-invalid': isInvalid ? 'true' : undefined,
+      value:
+        inputDraft ??
+        formatDateLabel(value ?? null, {
+          formatter: dateFormatter,
+          separator: rangeSeparator,
+          translations,
+          weekStartsOn: isWeek ? weekStartsOn : undefined,
+        }),
+      placeholder: getPlaceholder(selectionMode, translations),
       onFocus: () => {
-        if (openOnFocus) open();
+        if (openOnFocus && !isDisabled) open();
       },
+      onChange: isEditable
+        ? (event: React.ChangeEvent<HTMLInputElement>) => setInputDraft(event.target.value)
+        : undefined,
+      onBlur: isEditable
+        ? () => {
+            if (inputDraft !== null) commitInputValue(inputDraft);
+          }
+        : undefined,
+      onKeyDown: isEditable
+        ? (event: React.KeyboardEvent<HTMLInputElement>) => {
+            if (event.key !== 'Enter') return;
+            event.preventDefault();
+            if (inputDraft !== null) commitInputValue(inputDraft);
+          }
+        : undefined,
     }),
-    [id, inputRef, isOpen, locale, open, openOnFocus, value, isRange],
+    [
+      commitInputValue,
+      dateFormatter,
+      id,
+      inputDraft,
+      inputRef,
+      inputId,
+      ariaDescribedBy,
+      isDisabled,
+      isEditable,
+      isInvalid,
+      isOpen,
+      open,
+      openOnFocus,
+      rangeSeparator,
+      required,
+      selectionMode,
+      translations,
+      value,
+      isWeek,
+      weekStartsOn,
+    ],
   );
 
   const getTriggerProps = useCallback(
@@ -724,12 +2986,14 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
         triggerRef.current = node;
       },
       type: 'button',
+      disabled: isDisabled || undefined,
+      'aria-label': translations.toggleCalendar,
       'aria-haspopup': 'dialog',
       'aria-expanded': isOpen,
       'aria-controls': `${id}-content`,
       onClick: () => toggle(),
     }),
-    [id, isOpen, toggle],
+    [id, isDisabled, isOpen, toggle, translations],
   );
 
   const getContentProps = useCallback(
@@ -747,123 +3011,757 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
   );
 
   const getCalendarGridProps = useCallback(
-    () => ({
-      id: `${id}-grid`,
+    (monthIndex = 0) => ({
+      id: monthIndex === 0 ? `${id}-grid` : `${id}-grid-${monthIndex}`,
       role: 'grid',
-      'aria-labelledby': `${id}-label`,
+      'aria-multiselectable': isMultiple || undefined,
+      'aria-busy': isLoading || undefined,
+      'data-week-numbers': showWeekNumbers ? 'true' : undefined,
+      'data-loading': isLoading ? 'true' : undefined,
+      onMouseLeave: () => setHoveredDate(null),
+      'aria-labelledby': numberOfMonths > 1 ? `${id}-label-${monthIndex}` : `${id}-label`,
+    }),
+    [id, isLoading, isMultiple, numberOfMonths, showWeekNumbers],
+  );
+
+  const getWeekNumberProps = useCallback(
+    (week: CalendarWeek) => ({
+      role: 'rowheader',
+      'aria-label': formatMessage(translations.weekNumber, { week: week.weekNumber }),
+      'data-part': 'week-number',
+      'data-clickable': isWeekNumberClickable ? 'true' : undefined,
+      ...(isWeekNumberClickable
+        ? { type: 'button', tabIndex: -1, onClick: () => selectWeek(week) }
+        : {}),
+    }),
+    [isWeekNumberClickable, selectWeek, translations],
+  );
+
+  const getMonthCaptionProps = useCallback(
+    (monthIndex: number) => ({
+      id: `${id}-label-${monthIndex}`,
+      'aria-live': monthIndex === 0 ? 'polite' : undefined,
     }),
     [id],
   );
 
-  const getDayProps = useCallback(
-    (day: CalendarDay) => ({
-      id: `${id}-day-${day.date.toISOString()}`,
-      role: 'gridcell',
-      tabIndex: areSameDay(day.date, lastHighlighted) ? 0 : -1,
-      'aria-selected': isDateSelected(day.date),
-      'aria-label': new Intl.DateTimeFormat(locale, {
-        weekday: 'long',
-        month: 'long',
-        day: 'numeric',
-        year: 'numeric',
-      }).format(day.date),
-      disabled: day.isDisabled,
-      'data-selected': isDateSelected(day.date) ? 'true' : undefined,
-      'data-in-range': isInRange(day.date) ? 'true' : undefined,
-      'data-today': day.isToday ? 'true' : undefined,
-      'data-outside': day.isCurrentMonth ? undefined : 'true',
-      onClick: () => selectDate(day.date),
-      onKeyDown: (event: React.KeyboardEvent) => handleKeyDown(event.nativeEvent, day.date),
-      onFocus: () => setLastHighlighted(day.date),
+  const isHoveredWeek = useCallback(
+    (date: Date) => {
+      if (!isWeek || !hoveredDate) return false;
+      return areSameDay(getWeekStart(date, weekStartsOn), getWeekStart(hoveredDate, weekStartsOn));
+    },
+    [hoveredDate, isWeek, weekStartsOn],
+  );
+
+  const getDayState = useCallback(
+    (day: CalendarDay): DatePickerDayState => ({
+      isSelected: isDateSelected(day.date),
+      isInRange: isInRange(day.date),
+      isInPreview: isInPreview(day.date),
+      isRangeStart: !!rangeBounds?.start && areSameDay(day.date, rangeBounds.start),
+      isRangeEnd: !!rangeBounds?.end && areSameDay(day.date, rangeBounds.end),
+      isWeekHovered: isHoveredWeek(day.date),
+      isToday: day.isToday,
+      isOutside: !day.isCurrentMonth,
+      isDisabled: day.isDisabled,
     }),
-    [handleKeyDown, id, isDateSelected, isInRange, lastHighlighted, locale, selectDate],
+    [isDateSelected, isHoveredWeek, isInPreview, isInRange, rangeBounds],
+  );
+
+  const getDayProps = useCallback(
+    (day: CalendarDay) => {
+      // Outside days repeat in the neighbouring grid when several months are shown,
+      // so only the in-month copy stays interactive.
+      if (numberOfMonths > 1 && !day.isCurrentMonth) {
+        return {
+          role: 'gridcell',
+          tabIndex: -1,
+          disabled: true,
+          'aria-hidden': true,
+          'data-outside': 'true',
+          'data-hidden': 'true',
+        };
+      }
+      const state = getDayState(day);
+      return {
+        ...getMetaDataAttributes(day.meta),
+        ...getModifierDataAttributes(day.modifiers),
+        id: `${id}-day-${day.date.toISOString()}`,
+        role: 'gridcell',
+        tabIndex: areSameDay(day.date, lastHighlighted) ? 0 : -1,
+        'aria-selected': state.isSelected,
+        'aria-label': new Intl.DateTimeFormat(locale, {
+          weekday: 'long',
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+          calendar,
+        }).format(day.date),
+        disabled: day.isDisabled,
+        'data-selected': state.isSelected ? 'true' : undefined,
+        'data-in-range': state.isInRange ? 'true' : undefined,
+        'data-in-preview': state.isInPreview ? 'true' : undefined,
+        'data-range-start': state.isRangeStart ? 'true' : undefined,
+        'data-range-end': state.isRangeEnd ? 'true' : undefined,
+        'data-today': state.isToday ? 'true' : undefined,
+        'data-outside': state.isOutside ? 'true' : undefined,
+        'data-week-hover': state.isWeekHovered ? 'true' : undefined,
+        onClick: () => selectDate(day.date),
+        onMouseEnter: isWeek || isRange ? () => setHoveredDate(day.date) : undefined,
+        onKeyDown: (event: React.KeyboardEvent) => handleKeyDown(event.nativeEvent, day.date),
+        onFocus: () => {
+          setLastHighlighted(day.date);
+          if (isRange) setHoveredDate(day.date);
+        },
+      };
+    },
+    [
+      calendar,
+      getDayState,
+      handleKeyDown,
+      id,
+      isRange,
+      isWeek,
+      lastHighlighted,
+      locale,
+      numberOfMonths,
+      selectDate,
+    ],
   );
 
+  const [previousLabel, nextLabel] = NAVIGATION_LABELS[viewMode];
+
   const getPrevTriggerProps = useCallback(
     () => ({
-      'aria-label': 'Go to previous month',
+      'aria-label': translations[previousLabel],
       onClick: gotoPreviousMonth,
     }),
-    [gotoPreviousMonth],
+    [gotoPreviousMonth, previousLabel, translations],
   );
 
   const getNextTriggerProps = useCallback(
     () => ({
-      'aria-label': 'Go to next month',
+      'aria-label': translations[nextLabel],
       onClick: gotoNextMonth,
     }),
-    [gotoNextMonth],
+    [gotoNextMonth, nextLabel, translations],
+  );
+
+  useUpdateEffect(() => {
+    if (!isOpen) setViewMode(minView);
+  }, [isOpen, minView]);
+
+  const getPresetRange = useCallback(
+    (preset: DatePickerPreset) => {
+      const min = minDate ? (normalizeDate(minDate) ?? undefined) : undefined;
+      const max = maxDate ? (normalizeDate(maxDate) ?? undefined) : undefined;
+      const raw =
+        typeof preset.value === 'function'
+          ? preset.value(getNow(), { weekStartsOn, minDate: min, maxDate: max })
+          : preset.value;
+      return {
+        start: isDateRange(raw) ? raw.start : raw,
+        end: isDateRange(raw) ? raw.end : raw,
+        min,
+        max,
+      };
+    },
+    [getNow, maxDate, minDate, weekStartsOn],
+  );
+
+  // A preset lying wholly outside `minDate`/`maxDate` would clamp to a single bound day.
+  const isPresetDisabled = useCallback(
+    (preset: DatePickerPreset) => {
+      const { start, end, min, max } = getPresetRange(preset);
+      const first = start ?? end;
+      const last = end ?? start;
+      if (!first || !last) return false;
+      const [from, to] = compareDay(first, last) <= 0 ? [first, last] : [last, first];
+      return (!!min && compareDay(to, min) < 0) || (!!max && compareDay(from, max) > 0);
+    },
+    [getPresetRange],
+  );
+
+  const resolvePreset = useCallback(
+    (preset: DatePickerPreset): DatePickerValue => {
+      const { start: rawStart, end: rawEnd, min, max } = getPresetRange(preset);
+      const clamp = (date: Date | null) => (date ? normalizeDate(clampDate(date, min, max)) : null);
+      const start = clamp(rawStart);
+      const end = clamp(rawEnd);
+
+      if (isWeek && start) return getWeekRange(start, weekStartsOn);
+      if (isRange || isWeek) return { start, end };
+      if (isMultiple) {
+        const dates = [start, end].filter((date): date is Date => !!date);
+        return dates.filter((date, index) => index === 0 || !areSameDay(date, dates[0]));
+      }
+      return end ?? start;
+    },
+    [getPresetRange, isMultiple, isRange, isWeek, weekStartsOn],
+  );
+
+  const getPresetLabel = useCallback(
+    (preset: DatePickerPreset) =>
+      typeof preset.label === 'function' ? preset.label(translations) : preset.label,
+    [translations],
+  );
+
+  const isPresetActive = useCallback(
+    (preset: DatePickerPreset) =>
+      !isPresetDisabled(preset) && isSameValue(resolvePreset(preset), value ?? null),
+    [isPresetDisabled, resolvePreset, value],
+  );
+
+  const applyPreset = useCallback(
+    (preset: DatePickerPreset) => {
+      if (isPresetDisabled(preset)) return;
+      const next = resolvePreset(preset);
+      setValue(next);
+      const anchor = getSelectedDates(next)[0];
+      if (anchor) {
+        setView(anchor);
+        setLastHighlighted(anchor);
+      }
+      if (closeOnSelect) close();
+    },
+    [close, closeOnSelect, isPresetDisabled, resolvePreset, setValue],
+  );
+
+  const getPresetGroupProps = useCallback(
+    () => ({
+      id: `${id}-presets`,
+      role: 'group',
+      'aria-label': translations.presets,
+    }),
+    [id, translations],
+  );
+
+  const getPresetProps = useCallback(
+    (preset: DatePickerPreset) => {
+      const isActive = isPresetActive(preset);
+      const isDisabled = isPresetDisabled(preset);
+      return {
+        type: 'button',
+        disabled: isDisabled,
+        'aria-pressed': isActive,
+        'data-active': isActive ? 'true' : undefined,
+        'data-disabled': isDisabled ? 'true' : undefined,
+        onClick: () => applyPreset(preset),
+      };
+    },
+    [applyPreset, isPresetActive, isPresetDisabled],
+  );
+
+  const canZoomOut = getViewIndex(viewMode) < getViewIndex(maxView);
+
+  const getViewTriggerProps = useCallback(
+    () => ({
+      id: `${id}-view-trigger`,
+      type: 'button',
+      disabled: !canZoomOut,
+      'aria-live': 'polite',
+      'data-view': viewMode,
+      onClick: () => {
+        if (canZoomOut) gotoView(VIEW_ORDER[getViewIndex(viewMode) + 1]);
+      },
+    }),
+    [canZoomOut, gotoView, id, viewMode],
+  );
+
+  const getViewGridProps = useCallback(
+    () => ({
+      id: `${id}-${viewMode}-grid`,
+      role: 'grid',
+      'aria-labelledby': `${id}-view-trigger`,
+      'data-view': viewMode,
+    }),
+    [id, viewMode],
+  );
+
+  const getViewCellProps = useCallback(
+    (cell: CalendarCell) => {
+      const isFocusable = areSameDay(
+        cell.date,
+        getCellStart(lastHighlighted, cell.view, calendarSystem),
+      );
+      return {
+        id: `${id}-${cell.view}-${cell.date.toISOString()}`,
+        role: 'gridcell',
+        type: 'button',
+        tabIndex: isFocusable ? 0 : -1,
+        disabled: cell.isDisabled,
+        'aria-selected': cell.isSelected,
+        'data-selected': cell.isSelected ? 'true' : undefined,
+        'data-today': cell.isCurrent ? 'true' : undefined,
+        'data-outside': cell.isOutside ? 'true' : undefined,
+        onClick: () => selectCell(cell),
+        onKeyDown: (event: React.KeyboardEvent) => handleCellKeyDown(event, cell),
+        onFocus: () => setLastHighlighted(cell.date),
+      };
+    },
+    [calendarSystem, handleCellKeyDown, id, lastHighlighted, selectCell],
+  );
+
+  const viewFields = useMemo(() => calendarSystem.getFields(view), [calendarSystem, view]);
+
+  const monthNames = useMemo(() => {
+    if (!calendar) {
+      const formatter = new Intl.DateTimeFormat(locale, { month: 'long' });
+      return Array.from({ length: 12 }).map((_, month) =>
+        formatter.format(new Date(2020, month, 1)),
+      );
+    }
+    const formatter = new Intl.DateTimeFormat(locale, { month: 'long', calendar });
+    return Array.from({ length: 12 }).map((_, month) =>
+      formatter.format(calendarSystem.fromFields({ year: viewFields.year, month, day: 1 })),
+    );
+  }, [calendar, calendarSystem, locale, viewFields.year]);
+
+  const formatYear = useMemo(() => createYearFormatter(locale, calendar), [calendar, locale]);
+
+  const getYearLabel = useCallback(
+    (year: number) => formatYear(calendarSystem.fromFields({ year, month: 0, day: 1 })),
+    [calendarSystem, formatYear],
   );
 
   const getMonthSelectProps = useCallback(
     () => ({
-      value: view.getMonth(),
+      value: viewFields.month,
       onChange: (event: React.ChangeEvent<HTMLSelectElement>) => {
         gotoMonth(Number(event.target.value));
       },
     }),
-    [gotoMonth, view],
+    [gotoMonth, viewFields.month],
   );
 
   const getYearSelectProps = useCallback(
     () => ({
-      value: view.getFullYear(),
+      value: viewFields.year,
       onChange: (event: React.ChangeEvent<HTMLSelectElement>) => {
         gotoYear(Number(event.target.value));
       },
     }),
-    [gotoYear, view],
+    [gotoYear, viewFields.year],
   );
 
-  const getTimeInputProps = useCallback(
-    () => ({
-      id: `${id}-time`,
-      ref: timeInputRef,
-      type: 'time',
-      value: time ?? '',
-      onChange: (event: React.ChangeEvent<HTMLInputElement>) => {
-        const next = event.target.value;
-        setTime(next);
-        if (!value) return;
-        if (isRange && isDateRange(value)) {
-          const start = value.start ? new Date(value.start) : null;
-          const end = value.end ? new Date(value.end) : start;
-          const [hours, minutes] = next.split(':');
-          if (start) start.setHours(Number(hours), Number(minutes), 0, 0);
-          if (end) end.setHours(Number(hours), Number(minutes), 0, 0);
-          setValue({ start, end });
+  const commitTime = useCallback(
+    (endpoint: DateSegmentEndpoint, typed: string) => {
+      // Snap typed times like picked ones so state, callbacks and form values match the value.
+      const seconds = parseTimeString(typed);
+      const next =
+        seconds == null
+          ? typed
+          : formatTimeString(
+              snapTime(seconds, {
+                step: timeStep,
+                withSeconds: showSeconds,
+                bounds: getTimeBounds(getEndpointDate(endpoint)),
+              }),
+              showSeconds,
+            );
+      if (isRange) {
+        const isEnd = endpoint === 'end';
+        if (isEnd) setEndTime(next);
+        else setStartTime(next);
+        if (!isDateRange(value)) return;
+        const nextStart = isEnd ? startTime : next;
+        const nextEnd = isEnd ? next : endTime;
+        const { start, end } = value;
+        // Leave the value alone while the times would make a same-day range run backwards.
+        if (start && end && areSameDay(start, end) && nextStart && nextEnd && nextEnd < nextStart) {
           return;
         }
-        if (value instanceof Date) {
-          const nextDate = new Date(value);
-          const [hours, minutes] = next.split(':');
-          nextDate.setHours(Number(hours), Number(minutes), 0, 0);
-          setValue(nextDate);
-        }
-      },
+        setValue(applyRangeTimes(value, nextStart, nextEnd, applyTime));
+        return;
+      }
+      setTime(next);
+      if (!value) return;
+      if (isDateList(value)) {
+        setValue(value.map((date) => applyTime(date, next)));
+        return;
+      }
+      if (isDateRange(value)) {
+        setValue({
+          start: value.start && applyTime(value.start, next),
+          end: value.end && applyTime(value.end, next),
+        });
+        return;
+      }
+      if (value instanceof Date) {
+        setValue(applyTime(value, next));
+      }
+    },
+    [
+      applyTime,
+      endTime,
+      getEndpointDate,
+      getTimeBounds,
+      isRange,
+      setEndTime,
+      setStartTime,
+      setTime,
+      setValue,
+      showSeconds,
+      startTime,
+      timeStep,
+      value,
+    ],
+  );
+
+  const getTimeInputProps = useCallback(
+    (endpoint: DateSegmentEndpoint = 'start') => {
+      const isEnd = isRange && endpoint === 'end';
+      const bounds = getTimeBounds(getEndpointDate(endpoint));
+      return {
+        id: isRange ? `${id}-time-${endpoint}` : `${id}-time`,
+        ref: isEnd ? undefined : timeInputRef,
+        type: 'time',
+        value: (isRange ? getEndpointTime(endpoint) : time) ?? '',
+        step: timeStep * 60,
+        min: formatTimeString(bounds.min, showSeconds),
+        max: formatTimeString(bounds.max, showSeconds),
+        'aria-label': isRange ? translations[isEnd ? 'endTime' : 'startTime'] : translations.time,
+        'aria-invalid': isEnd && isTimeRangeInvalid ? true : undefined,
+        onChange: (event: React.ChangeEvent<HTMLInputElement>) => {
+          commitTime(endpoint, event.target.value);
+        },
+      };
+    },
+    [
+      commitTime,
+      getEndpointDate,
+      getEndpointTime,
+      getTimeBounds,
+      id,
+      isRange,
+      isTimeRangeInvalid,
+      showSeconds,
+      time,
+      timeStep,
+      translations,
+    ],
+  );
+
+  // Prefer the committed date's clock so the field reflects any snapping applied to it.
+  const getEndpointSeconds = useCallback(
+    (endpoint: DateSegmentEndpoint) => {
+      const date = getEndpointDate(endpoint);
+      if (date) return getSecondsOfDay(date);
+      return parseTimeString(getEndpointTime(endpoint));
+    },
+    [getEndpointDate, getEndpointTime],
+  );
+
+  const getTimeOptions = useCallback(
+    (unit: TimeUnit, endpoint: DateSegmentEndpoint = 'start') =>
+      getTimeUnitOptions(unit, getEndpointSeconds(endpoint), {
+        step: timeStep,
+        withSeconds: showSeconds,
+        bounds: getTimeBounds(getEndpointDate(endpoint)),
+        hourCycle,
+        locale,
+      }),
+    [getEndpointDate, getEndpointSeconds, getTimeBounds, hourCycle, locale, showSeconds, timeStep],
+  );
+
+  const selectTimeUnit = useCallback(
+    (unit: TimeUnit, optionValue: number, endpoint: DateSegmentEndpoint) => {
+      const next = setTimeUnit(getEndpointSeconds(endpoint), unit, optionValue, hourCycle);
+      const snapped = snapTime(next, {
+        step: timeStep,
+        withSeconds: showSeconds,
+        bounds: getTimeBounds(getEndpointDate(endpoint)),
+      });
+      commitTime(endpoint, formatTimeString(snapped, showSeconds));
+    },
+    [
+      commitTime,
+      getEndpointDate,
+      getEndpointSeconds,
+      getTimeBounds,
+      hourCycle,
+      showSeconds,
+      timeStep,
+    ],
+  );
+
+  const getTimeUnitId = useCallback(
+    (unit: TimeUnit, endpoint: DateSegmentEndpoint) =>
+      isRange ? `${id}-time-${endpoint}-${unit}` : `${id}-time-${unit}`,
+    [id, isRange],
+  );
+
+  const getTimeUnitLabel = useCallback(
+    (unit: TimeUnit, endpoint: DateSegmentEndpoint) => {
+      const label = translations[unit];
+      if (!isRange) return label;
+      return `${translations[endpoint === 'end' ? 'endTime' : 'startTime']}, ${label}`;
+    },
+    [isRange, translations],
+  );
+
+  const getSelectedTimeUnit = useCallback(
+    (unit: TimeUnit, endpoint: DateSegmentEndpoint) => {
+      const current = getEndpointSeconds(endpoint);
+      return current == null ? null : getTimeUnitValue(current, unit, hourCycle);
+    },
+    [getEndpointSeconds, hourCycle],
+  );
+
+  // Columns keep focus on the listbox and track the selection with aria-activedescendant;
+  // moving through the options commits each one, like a native select.
+  const getTimeColumnProps = useCallback(
+    (unit: TimeUnit, endpoint: DateSegmentEndpoint = 'start') => {
+      const baseId = getTimeUnitId(unit, endpoint);
+      const selected = getSelectedTimeUnit(unit, endpoint);
+      return {
+        id: `${baseId}-listbox`,
+        role: 'listbox',
+        tabIndex: 0,
+        'aria-label': getTimeUnitLabel(unit, endpoint),
+        'aria-activedescendant': selected == null ? undefined : `${baseId}-option-${selected}`,
+        'aria-invalid': isRange && endpoint === 'end' && isTimeRangeInvalid ? true : undefined,
+        'data-unit': unit,
+        onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+          const enabled = getTimeOptions(unit, endpoint).filter((option) => !option.isDisabled);
+          if (enabled.length === 0) return;
+          const index = enabled.findIndex((option) => option.value === selected);
+          let target: TimeOption | undefined;
+          switch (event.key) {
+            case 'ArrowDown':
+              target = enabled[Math.min(index + 1, enabled.length - 1)];
+              break;
+            case 'ArrowUp':
+              target = enabled[Math.max(index - 1, 0)];
+              break;
+            case 'Home':
+              target = enabled[0];
+              break;
+            case 'End':
+              target = enabled[enabled.length - 1];
+              break;
+            default:
+              return;
+          }
+          event.preventDefault();
+          if (target && target.value !== selected) selectTimeUnit(unit, target.value, endpoint);
+        },
+      };
+    },
+    [
+      getSelectedTimeUnit,
+      getTimeOptions,
+      getTimeUnitId,
+      getTimeUnitLabel,
+      isRange,
+      isTimeRangeInvalid,
+      selectTimeUnit,
+    ],
+  );
+
+  const getTimeOptionProps = useCallback(
+    (unit: TimeUnit, option: TimeOption, endpoint: DateSegmentEndpoint = 'start') => {
+      const isSelected = getSelectedTimeUnit(unit, endpoint) === option.value;
+      return {
+        id: `${getTimeUnitId(unit, endpoint)}-option-${option.value}`,
+        role: 'option',
+        'aria-selected': isSelected,
+        'aria-disabled': option.isDisabled || undefined,
+        'data-selected': isSelected ? 'true' : undefined,
+        'data-disabled': option.isDisabled ? 'true' : undefined,
+        onClick: option.isDisabled ? undefined : () => selectTimeUnit(unit, option.value, endpoint),
+      };
+    },
+    [getSelectedTimeUnit, getTimeUnitId, selectTimeUnit],
+  );
+
+  const getTimeSegments = useCallback(
+    (endpoint: DateSegmentEndpoint = 'start') =>
+      timeUnits.map<TimeSegment>((unit) => {
+        const selected = getSelectedTimeUnit(unit, endpoint);
+        const option = getTimeOptions(unit, endpoint).find((item) => item.value === selected);
+        return {
+          unit,
+          endpoint,
+          text: selected == null ? '--' : (option?.label ?? String(selected).padStart(2, '0')),
+          value: selected,
+          isPlaceholder: selected == null,
+        };
+      }),
+    [getSelectedTimeUnit, getTimeOptions, timeUnits],
+  );
+
+  const getTimeSegmentGroupProps = useCallback(
+    (endpoint: DateSegmentEndpoint = 'start') => ({
+      id: isRange ? `${id}-time-segments-${endpoint}` : `${id}-time-segments`,
+      role: 'group',
+      'data-part': 'segment-group',
+      'aria-label': isRange
+        ? translations[endpoint === 'end' ? 'endTime' : 'startTime']
+        : translations.time,
     }),
-    [id, isRange, setTime, setValue, time, value],
+    [id, isRange, translations],
+  );
+
+  // Time segments step through the enabled options of their unit and take typed digits, or
+  // the first letter of a day period, committing through the same snapping as the columns.
+  const getTimeSegmentProps = useCallback(
+    (segment: TimeSegment) => {
+      const { unit, endpoint, value: selected } = segment;
+      const bufferKey = `${endpoint}-time-${unit}`;
+      const options = getTimeOptions(unit, endpoint);
+      const enabled = options.filter((option) => !option.isDisabled);
+      const optionValues = options.map((option) => option.value);
+      const maxValue = Math.max(...optionValues);
+
+      return {
+        id: getTimeUnitId(unit, endpoint),
+        role: 'spinbutton',
+        tabIndex: 0,
+        inputMode: unit === 'period' ? undefined : 'numeric',
+        'aria-label': getTimeUnitLabel(unit, endpoint),
+        'aria-valuenow': selected ?? undefined,
+        'aria-valuemin': Math.min(...optionValues),
+        'aria-valuemax': maxValue,
+        'aria-valuetext': segment.isPlaceholder ? translations.empty : segment.text,
+        'aria-invalid': isRange && endpoint === 'end' && isTimeRangeInvalid ? true : undefined,
+        'data-part': 'segment',
+        'data-segment': unit,
+        'data-placeholder': segment.isPlaceholder ? 'true' : undefined,
+        onFocus: () => {
+          segmentBufferRef.current = null;
+        },
+        onBlur: () => {
+          segmentBufferRef.current = null;
+        },
+        onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+          const element = event.currentTarget;
+          switch (event.key) {
+            case 'ArrowUp':
+            case 'ArrowDown': {
+              event.preventDefault();
+              segmentBufferRef.current = null;
+              if (enabled.length === 0) return;
+              const step = event.key === 'ArrowUp' ? 1 : -1;
+              const index = enabled.findIndex((option) => option.value === selected);
+              const target =
+                index === -1
+                  ? enabled[step > 0 ? 0 : enabled.length - 1]
+                  : enabled[(index + step + enabled.length) % enabled.length];
+              selectTimeUnit(unit, target.value, endpoint);
+              return;
+            }
+            case 'ArrowLeft':
+            case 'ArrowRight':
+              event.preventDefault();
+              focusSiblingSegment(
+                element,
+                (event.key === 'ArrowRight') === (dir === 'ltr') ? 1 : -1,
+              );
+              return;
+            default:
+              break;
+          }
+
+          if (unit === 'period') {
+            if (event.key.length !== 1) return;
+            const key = event.key.toLowerCase();
+            const target = enabled.find((option) => option.label.toLowerCase().startsWith(key));
+            if (!target) return;
+            event.preventDefault();
+            selectTimeUnit(unit, target.value, endpoint);
+            return;
+          }
+
+          if (!/^\d$/.test(event.key)) return;
+          event.preventDefault();
+          const buffer = segmentBufferRef.current;
+          let text = buffer?.key === bufferKey ? buffer.text + event.key : event.key;
+          if (text.length > 2 || Number(text) > maxValue) text = event.key;
+          const next = Number(text);
+          const isComplete = text.length >= 2 || next * 10 > maxValue;
+          segmentBufferRef.current = isComplete ? null : { key: bufferKey, text };
+          if (enabled.some((option) => option.value === next)) {
+            selectTimeUnit(unit, next, endpoint);
+          }
+          if (isComplete) focusSiblingSegment(element, 1);
+        },
+      };
+    },
+    [
+      dir,
+      getTimeOptions,
+      getTimeUnitId,
+      getTimeUnitLabel,
+      isRange,
+      isTimeRangeInvalid,
+      selectTimeUnit,
+      translations,
+    ],
+  );
+
+  const getFocusTargetId = useCallback(
+    (date: Date) =>
+      viewMode === 'day'
+        ? `${id}-day-${date.toISOString()}`
+        : `${id}-${viewMode}-${getCellStart(date, viewMode, calendarSystem).toISOString()}`,
+    [calendarSystem, id, viewMode],
   );
 
   useUpdateEffect(() => {
     if (!isOpen) return;
-    const node = focusedDateRef.current ?? view;
-    const dayId = `${id}-day-${node.toISOString()}`;
-    const el = contentRef.current?.querySelector<HTMLElement>(`#${escapeId(dayId)}`);
+    const node = viewMode === 'day' ? (focusedDateRef.current ?? view) : lastHighlighted;
+    const el = contentRef.current?.querySelector<HTMLElement>(
+      `#${escapeId(getFocusTargetId(node))}`,
+    );
     el?.focus();
   }, [isOpen, view, id]);
 
+  useEffect(() => {
+    if (!shouldFocusDayRef.current) return;
+    shouldFocusDayRef.current = false;
+    contentRef.current
+      ?.querySelector<HTMLElement>(`#${escapeId(getFocusTargetId(lastHighlighted))}`)
+      ?.focus();
+  }, [getFocusTargetId, lastHighlighted, view]);
+
   return {
     isOpen,
     isRange,
+    selectionMode,
+    isEditable,
     value: value ?? null,
     time: time ?? null,
+    startTime: startTime ?? null,
+    endTime: endTime ?? null,
+    isTimeRangeInvalid,
     enableTimeSelection,
-    viewMonth: view.getMonth(),
-    viewYear: view.getFullYear(),
+    hourCycle,
+    isHourCycleSet: hourCycleProp != null,
+    showSeconds,
+    timeUnits,
+    calendar,
+    viewMonth: viewFields.month,
+    viewYear: viewFields.year,
+    monthNames,
+    getYearLabel,
     focusedDate: lastHighlighted,
     weekDays,
     weeks,
+    months,
+    showWeekNumbers,
+    isLoading,
+    reloadAvailability,
+    numberOfMonths: Math.max(1, numberOfMonths),
+    view: viewMode,
+    minView,
+    maxView,
+    viewCells,
+    presets,
+    isPresetActive,
+    isPresetDisabled,
+    getPresetLabel,
+    applyPreset,
     triggerRef,
     contentRef,
     inputRef,
@@ -871,28 +3769,63 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
     hasSelectedDate,
     isDateSelected,
     isInRange,
+    isInPreview,
+    rangeError,
+    getRangeError: getPendingRangeError,
     open,
     close,
     toggle,
     selectDate,
+    commitInputValue,
     clear,
     gotoPreviousMonth,
     gotoNextMonth,
     gotoMonth,
     gotoYear,
+    gotoView,
+    validationError,
+    isInvalid,
+    isDisabled,
+    reset,
+    formFields,
     getRootProps,
+    getHiddenInputProps,
+    getLiveRegionProps,
     getControlProps,
     getInputProps,
     getTriggerProps,
     getContentProps,
     getCalendarGridProps,
+    getMonthCaptionProps,
     getDayProps,
+    getDayState,
+    getWeekNumberProps,
+    selectWeek,
     getPrevTriggerProps,
     getNextTriggerProps,
+    getViewTriggerProps,
+    getViewGridProps,
+    getViewCellProps,
+    getPresetGroupProps,
+    getPresetProps,
     getMonthSelectProps,
     getYearSelectProps,
     getTimeInputProps,
+    getTimeOptions,
+    getTimeColumnProps,
+    getTimeOptionProps,
+    getTimeSegments,
+    getTimeSegmentGroupProps,
+    getTimeSegmentProps,
+    getSegments,
+    getSegmentGroupProps,
+    getSegmentProps,
     locale,
+    dir,
+    translations,
+    announcement,
+    rangeSeparator,
+    formatDate: dateFormatter.format,
     minDate: minDate ? normalizeDate(minDate) : null,
     maxDate: maxDate ? normalizeDate(maxDate) : null,
     weekStartsOn,
@@ -901,9 +3834,14 @@ export function useDatePicker(props: UseDatePickerProps): UseDatePickerReturn {
   };
 }
 
+export type DatePickerDayRenderer = (
+  day: CalendarDay,
+  state: DatePickerDayState,
+) => React.ReactNode;
+
 export interface DatePickerContextValue extends UseDatePickerReturn {
   yearRange?: { start: number; end: number };
-  monthNames?: string[];
+  renderDay?: DatePickerDayRenderer;
 }
 
 export const DatePickerContext = createContext<DatePickerContextValue | undefined>(undefined);